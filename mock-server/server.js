@@ -0,0 +1,124 @@
+// In-memory implementation of the REST API for local development.
+// Data lives only as long as the process. Run with `npm run mock-server`;
+// the Vite dev server proxies /api to it.
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Each server keeps its own data, so tests can start a fresh one
+export const createMockServer = () => {
+  const users = new Map();
+  const measurements = new Map();
+
+  const measurementsOf = (userId) =>
+    [...measurements.values()].filter((m) => m.userId === userId);
+
+  const handle = async (req, res) => {
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+    const parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    const method = req.method;
+
+    if (method === 'OPTIONS') return send(res, 204);
+    if (parts[0] !== 'users') return send(res, 404, { error: 'Not found' });
+
+    const [, userId, collection, measurementId] = parts;
+
+    // /users
+    if (!userId) {
+      if (method === 'GET') return send(res, 200, [...users.values()]);
+      if (method === 'POST') {
+        const user = await readBody(req);
+        if (!user.id) return send(res, 400, { error: 'id is required' });
+        users.set(user.id, user);
+        return send(res, 201, user);
+      }
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    // /users/:id
+    if (!collection) {
+      if (method === 'PUT') {
+        const user = { ...(await readBody(req)), id: userId };
+        users.set(userId, user);
+        return send(res, 200, user);
+      }
+      if (method === 'DELETE') {
+        if (!users.delete(userId)) return send(res, 404, { error: 'User not found' });
+        measurementsOf(userId).forEach((m) => measurements.delete(m.id));
+        return send(res, 204);
+      }
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    if (collection !== 'measurements') return send(res, 404, { error: 'Not found' });
+
+    // /users/:id/measurements
+    if (!measurementId) {
+      if (method === 'GET') return send(res, 200, measurementsOf(userId));
+      if (method === 'POST') {
+        const measurement = { ...(await readBody(req)), userId };
+        if (!measurement.id) return send(res, 400, { error: 'id is required' });
+        measurements.set(measurement.id, measurement);
+        return send(res, 201, measurement);
+      }
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    // /users/:id/measurements/:measurementId
+    if (method === 'PUT') {
+      // Upserts, so the client can push changes made offline
+      const measurement = { ...(await readBody(req)), id: measurementId, userId };
+      measurements.set(measurementId, measurement);
+      return send(res, 200, measurement);
+    }
+    if (method === 'DELETE') {
+      const existing = measurements.get(measurementId);
+      if (!existing || existing.userId !== userId) {
+        return send(res, 404, { error: 'Measurement not found' });
+      }
+      measurements.delete(measurementId);
+      return send(res, 204);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  };
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(error);
+      send(res, 400, { error: 'Invalid request body' });
+    });
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createMockServer().listen(PORT, () => {
+    console.log(`Mock API listening on http://localhost:${PORT}`);
+  });
+}
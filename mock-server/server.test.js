@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMockServer } from './server.js';
+
+describe('mock server', () => {
+  const server = createMockServer();
+  let baseUrl = '';
+
+  beforeAll(
+    () =>
+      new Promise((resolve) => {
+        server.listen(0, () => {
+          baseUrl = `http://localhost:${server.address().port}`;
+          resolve();
+        });
+      })
+  );
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  const call = (path, method = 'GET', body) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  it('upserts and lists users and their measurements', async () => {
+    expect((await call('/users/u-1', 'PUT', { name: 'Анна' })).status).toBe(200);
+    expect((await call('/users/u-1/measurements/m-1', 'PUT', { weight: 64.2 })).status).toBe(200);
+
+    expect(await (await call('/users')).json()).toEqual([{ id: 'u-1', name: 'Анна' }]);
+    expect(await (await call('/users/u-1/measurements')).json()).toEqual([
+      { id: 'm-1', userId: 'u-1', weight: 64.2 },
+    ]);
+  });
+
+  it('deletes a user together with the measurements', async () => {
+    expect((await call('/users/u-1', 'DELETE')).status).toBe(204);
+    expect(await (await call('/users/u-1/measurements')).json()).toEqual([]);
+    expect((await call('/users/u-1', 'DELETE')).status).toBe(404);
+  });
+
+  it('rejects invalid bodies and unknown paths', async () => {
+    // The server logs the parse error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const invalid = await fetch(`${baseUrl}/users/u-2`, { method: 'PUT', body: '{' });
+    expect(invalid.status).toBe(400);
+    expect((await call('/other')).status).toBe(404);
+    expect((await call('/users', 'DELETE')).status).toBe(405);
+  });
+});
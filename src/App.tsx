@@ -1,10 +1,11 @@
-import React from 'react';
 import { Routes, Route } from 'react-router-dom';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import DataEntry from './pages/DataEntry';
 import Reports from './pages/Reports';
 import Profile from './pages/Profile';
+import Goals from './pages/Goals';
+import SpreadsheetImport from './pages/SpreadsheetImport';
 import { UserProvider } from './context/UserContext';
 import { MeasurementProvider } from './context/MeasurementContext';
 
@@ -16,7 +17,10 @@ function App() {
           <Route path="/" element={<Layout />}>
             <Route index element={<Dashboard />} />
             <Route path="data-entry" element={<DataEntry />} />
+            <Route path="data-entry/:id" element={<DataEntry />} />
             <Route path="reports" element={<Reports />} />
+            <Route path="goals" element={<Goals />} />
+            <Route path="import" element={<SpreadsheetImport />} />
             <Route path="profile" element={<Profile />} />
           </Route>
         </Routes>
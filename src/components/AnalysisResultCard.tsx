@@ -69,6 +69,11 @@ const AnalysisResultCard: React.FC<AnalysisResultCardProps> = ({ result }) => {
             <p className={`mt-1 ${textColor}`}>
               Нормальный диапазон: {result.normalRange}
             </p>
+            {result.referenceBand && (
+              <p className="mt-1 text-gray-600">
+                Группа сравнения: {result.referenceBand}
+              </p>
+            )}
             <p className="mt-3 text-gray-700">
               {result.recommendation}
             </p>
@@ -0,0 +1,204 @@
+import React, { useRef, useState } from 'react';
+import { Archive, Download, Upload } from 'lucide-react';
+import { useUser } from '../context/UserContext';
+import { useMeasurements } from '../context/MeasurementContext';
+import { getRepository, getStorageErrorMessage } from '../utils/repository';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { toDateInputValue } from '../utils/dateRange';
+import {
+  BackupData,
+  BackupDiff,
+  RecordDiff,
+  RestoreMode,
+  applyBackup,
+  collectBackupData,
+  diffBackup,
+  readBackup,
+  serializeBackup,
+} from '../utils/backup';
+
+interface PendingRestore {
+  fileName: string;
+  backup: BackupData;
+  current: BackupData;
+  diff: BackupDiff;
+}
+
+const RESTORE_MODES: Record<RestoreMode, { label: string; description: string }> = {
+  merge: {
+    label: 'Объединить',
+    description: 'Добавить новые профили и измерения. При расхождениях остаются данные из этого браузера.',
+  },
+  replace: {
+    label: 'Заменить',
+    description: 'Сделать данные точной копией файла. Профили и измерения, которых нет в файле, будут удалены.',
+  },
+};
+
+const describeDiff = (diff: RecordDiff<unknown>, mode: RestoreMode) => {
+  const parts = [`новых: ${diff.added.length}`, `с расхождениями: ${diff.conflicting.length}`];
+  if (mode === 'replace') parts.push(`будет удалено: ${diff.removed.length}`);
+  return parts.join(', ');
+};
+
+// Downloads all profiles, measurements, goals and settings as one file and
+// restores them after showing what would change
+const BackupSettings: React.FC = () => {
+  const { users, reload: reloadUsers } = useUser();
+  const { reload: reloadMeasurements } = useMeasurements();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const run = async (work: () => Promise<void>) => {
+    setIsBusy(true);
+    setMessage('');
+    setError('');
+    try {
+      await work();
+    } catch (backupError) {
+      setError(getStorageErrorMessage(backupError));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownload = () =>
+    run(async () => {
+      const data = await collectBackupData(getRepository(), users);
+      downloadFile(
+        await serializeBackup(data),
+        `inbody-backup-${toDateInputValue(new Date())}.json`,
+        'application/json'
+      );
+    });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setPending(null);
+    run(async () => {
+      const backup = await readBackup(await readFileAsText(file));
+      const current = await collectBackupData(getRepository(), users);
+      setMode('merge');
+      setPending({ fileName: file.name, backup, current, diff: diffBackup(backup, current) });
+    });
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    run(async () => {
+      await applyBackup(getRepository(), pending.backup, pending.current, pending.diff, mode);
+      setPending(null);
+      setMessage('Данные восстановлены из резервной копии');
+      reloadUsers();
+      reloadMeasurements();
+    });
+  };
+
+  const hasChanges =
+    pending !== null &&
+    (mode === 'merge'
+      ? pending.diff.users.added.length + pending.diff.measurements.added.length > 0
+      : [pending.diff.users, pending.diff.measurements].some(
+          (diff) => diff.added.length + diff.conflicting.length + diff.removed.length > 0
+        ));
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-card p-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div className="flex items-start">
+          <Archive className="h-6 w-6 text-primary-600 flex-shrink-0" />
+          <div className="ml-3">
+            <h3 className="text-lg font-medium text-gray-800">Резервная копия</h3>
+            <p className="text-gray-600 text-sm mt-1">
+              Все профили, измерения, цели и настройки в одном файле JSON с проверкой целостности.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            className="btn-outline flex items-center"
+            onClick={handleDownload}
+            disabled={isBusy || users.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Скачать
+          </button>
+          <button
+            type="button"
+            className="btn-outline flex items-center"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Восстановить
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+      </div>
+
+      {pending && (
+        <div className="mt-6 border-t border-gray-200 pt-4 animate-fade-in">
+          <p className="text-sm text-gray-600 mb-3">
+            {pending.fileName}: профилей {pending.backup.users.length}, измерений {pending.backup.measurements.length}
+          </p>
+          <ul className="text-sm text-gray-800 space-y-1 mb-4">
+            <li>Профили — {describeDiff(pending.diff.users, mode)}</li>
+            <li>Измерения — {describeDiff(pending.diff.measurements, mode)}</li>
+          </ul>
+
+          <div className="space-y-2 mb-4">
+            {(Object.keys(RESTORE_MODES) as RestoreMode[]).map((option) => (
+              <label key={option} htmlFor={`restore-${option}`} className="flex items-start cursor-pointer">
+                <input
+                  type="radio"
+                  id={`restore-${option}`}
+                  name="restoreMode"
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="mt-1 h-4 w-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                />
+                <span className="ml-2 text-sm">
+                  <span className="font-medium text-gray-800">{RESTORE_MODES[option].label}.</span>{' '}
+                  <span className="text-gray-600">{RESTORE_MODES[option].description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <button type="button" className="btn-outline" onClick={() => setPending(null)} disabled={isBusy}>
+              Отмена
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleApply}
+              disabled={isBusy || !hasChanges}
+            >
+              {hasChanges ? 'Применить' : 'Нет изменений'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && <p className="mt-4 text-sm text-green-700">{message}</p>}
+      {error && <p className="mt-4 text-sm text-error-500">{error}</p>}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { HealthStatus, Measurement, User } from '../types';
+import { classifyDerivedMetrics } from '../utils/derivedMetrics';
+import { getStatusLabel } from '../utils/healthCalculations';
+
+interface BodyCompositionIndicesProps {
+  measurement: Measurement;
+  user: User;
+}
+
+const getBadgeClass = (status: HealthStatus) => {
+  if (status === 'normal') return 'badge-green';
+  if (status === 'obese' || status === 'very-high') return 'badge-red';
+  return 'badge-yellow';
+};
+
+const BodyCompositionIndices: React.FC<BodyCompositionIndicesProps> = ({ measurement, user }) => {
+  const results = classifyDerivedMetrics(measurement, user);
+
+  return (
+    <div className="bg-white rounded-lg shadow-card p-6 mb-8">
+      <h2 className="text-lg font-medium text-gray-800 mb-4 flex items-center">
+        <Gauge className="mr-2 h-5 w-5 text-primary-600" />
+        Индексы состава тела
+      </h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {results.map((result) => (
+          <div key={result.metric} className="border border-gray-200 rounded-md p-4">
+            <div className="flex items-start justify-between">
+              <h3 className="text-sm font-medium text-gray-600">{result.label}</h3>
+              {result.status && (
+                <span className={`ml-2 ${getBadgeClass(result.status)}`}>
+                  {getStatusLabel(result.status)}
+                </span>
+              )}
+            </div>
+            <p className="mt-2 text-2xl font-semibold text-gray-900">
+              {result.value ?? '—'}
+              {result.unit && <span className="ml-1 text-sm font-normal text-gray-500">{result.unit}</span>}
+            </p>
+            {result.normalRange && (
+              <p className="mt-1 text-xs text-gray-500">
+                Норма: {result.normalRange} ({result.source})
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BodyCompositionIndices;
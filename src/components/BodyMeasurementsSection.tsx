@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Ruler } from 'lucide-react';
+import { BodySegment, Girths, SegmentalAnalysis, SegmentValues } from '../types';
+import { BODY_SEGMENTS, GIRTH_FIELDS, GIRTH_LABELS, SEGMENT_LABELS } from '../utils/bodyMeasurements';
+
+interface BodyMeasurementsSectionProps {
+  girths: Girths;
+  segmental: SegmentalAnalysis;
+  errors: Record<string, string>;
+  onGirthsChange: (girths: Girths) => void;
+  onSegmentalChange: (segmental: SegmentalAnalysis) => void;
+}
+
+const parseOptional = (value: string): number | undefined =>
+  value === '' ? undefined : parseFloat(value);
+
+// Optional girths and InBody segmental values. Collapsed unless something
+// has already been entered.
+const BodyMeasurementsSection: React.FC<BodyMeasurementsSectionProps> = ({
+  girths,
+  segmental,
+  errors,
+  onGirthsChange,
+  onSegmentalChange,
+}) => {
+  const hasValues =
+    Object.values(girths).some((value) => value !== undefined) ||
+    Object.values(segmental).some((segment) => Object.values(segment ?? {}).some((v) => v !== undefined));
+  const [isOpen, setIsOpen] = useState(hasValues);
+
+  const handleGirthChange = (field: keyof Girths, value: string) => {
+    onGirthsChange({ ...girths, [field]: parseOptional(value) });
+  };
+
+  const handleSegmentChange = (segment: BodySegment, field: keyof SegmentValues, value: string) => {
+    onSegmentalChange({
+      ...segmental,
+      [segment]: { ...segmental[segment], [field]: parseOptional(value) },
+    });
+  };
+
+  return (
+    <div className="mt-2 border border-gray-200 rounded-md">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left text-gray-800 hover:bg-gray-50"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center font-medium">
+          <Ruler className="mr-2 h-5 w-5 text-primary-600" />
+          Обхваты и сегментарный анализ
+        </span>
+        {isOpen ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 animate-fade-in">
+          <h4 className="mt-2 mb-3 text-sm font-medium text-gray-700">Обхваты (см)</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {GIRTH_FIELDS.map((field) => (
+              <div key={field}>
+                <label htmlFor={`girth-${field}`} className="label">
+                  {GIRTH_LABELS[field]}
+                </label>
+                <input
+                  type="number"
+                  id={`girth-${field}`}
+                  value={girths[field] ?? ''}
+                  onChange={(e) => handleGirthChange(field, e.target.value)}
+                  className="input"
+                  step="0.1"
+                  min="0"
+                />
+              </div>
+            ))}
+          </div>
+          {errors.girths && <p className="mt-1 text-sm text-error-500">{errors.girths}</p>}
+
+          <h4 className="mt-6 mb-3 text-sm font-medium text-gray-700">
+            Сегментарный анализ из отчёта InBody (кг)
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Сегмент</th>
+                  <th className="py-2 pr-4 font-medium">Безжировая масса</th>
+                  <th className="py-2 font-medium">Жировая масса</th>
+                </tr>
+              </thead>
+              <tbody>
+                {BODY_SEGMENTS.map((segment) => (
+                  <tr key={segment}>
+                    <td className="py-1 pr-4 text-gray-700 whitespace-nowrap">{SEGMENT_LABELS[segment]}</td>
+                    <td className="py-1 pr-4">
+                      <input
+                        type="number"
+                        aria-label={`${SEGMENT_LABELS[segment]}: безжировая масса`}
+                        value={segmental[segment]?.lean ?? ''}
+                        onChange={(e) => handleSegmentChange(segment, 'lean', e.target.value)}
+                        className="input"
+                        step="0.01"
+                        min="0"
+                      />
+                    </td>
+                    <td className="py-1">
+                      <input
+                        type="number"
+                        aria-label={`${SEGMENT_LABELS[segment]}: жировая масса`}
+                        value={segmental[segment]?.fat ?? ''}
+                        onChange={(e) => handleSegmentChange(segment, 'fat', e.target.value)}
+                        className="input"
+                        step="0.01"
+                        min="0"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {errors.segmental && <p className="mt-1 text-sm text-error-500">{errors.segmental}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BodyMeasurementsSection;
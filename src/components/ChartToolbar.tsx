@@ -0,0 +1,47 @@
+import React, { RefObject } from 'react';
+import { Chart as ChartJS } from 'chart.js';
+import { Download, RotateCcw } from 'lucide-react';
+import { exportChartPNG, exportChartSVG } from '../utils/chartExport';
+
+interface ChartToolbarProps {
+  chartRef: RefObject<ChartJS<'line'>>;
+  filename: string;
+}
+
+const ChartToolbar: React.FC<ChartToolbarProps> = ({ chartRef, filename }) => {
+  const buttonClass = 'inline-flex items-center text-xs text-gray-500 hover:text-primary-600';
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={() => chartRef.current?.resetZoom()}
+        className={buttonClass}
+        title="Колесо мыши — масштаб, перетаскивание — сдвиг"
+      >
+        <RotateCcw className="mr-1 h-3.5 w-3.5" />
+        Сбросить масштаб
+      </button>
+      <button
+        type="button"
+        onClick={() => chartRef.current && exportChartPNG(chartRef.current, filename)}
+        className={buttonClass}
+        title="Скачать график как изображение"
+      >
+        <Download className="mr-1 h-3.5 w-3.5" />
+        PNG
+      </button>
+      <button
+        type="button"
+        onClick={() => chartRef.current && exportChartSVG(chartRef.current, filename)}
+        className={buttonClass}
+        title="Скачать график в векторном формате"
+      >
+        <Download className="mr-1 h-3.5 w-3.5" />
+        SVG
+      </button>
+    </div>
+  );
+};
+
+export default ChartToolbar;
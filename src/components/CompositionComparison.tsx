@@ -0,0 +1,153 @@
+import React from 'react';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  Tooltip,
+  ChartData,
+  ChartOptions,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { ArrowRightLeft, X } from 'lucide-react';
+import { Measurement } from '../types';
+import { CompositionChange, compareMeasurements, formatCompositionChange } from '../utils/compositionChange';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale, Tooltip);
+
+interface CompositionComparisonProps {
+  first: Measurement;
+  second: Measurement;
+  onClose: () => void;
+}
+
+const TOTAL_COLOR = 'rgb(59, 130, 246)';
+const GOOD_COLOR = 'rgb(34, 197, 94)';
+const BAD_COLOR = 'rgb(239, 68, 68)';
+const NEUTRAL_COLOR = 'rgb(156, 163, 175)';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('ru-RU', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Floating bars: both weights start at the axis minimum, the parts of the
+// change float between the running totals
+const buildWaterfall = (change: CompositionChange): { data: ChartData<'bar'>; options: ChartOptions<'bar'> } => {
+  const steps = [
+    { label: 'Жир', change: change.fatMassChange, color: change.fatMassChange <= 0 ? GOOD_COLOR : BAD_COLOR },
+    {
+      label: 'Мышцы',
+      change: change.skeletalMuscleChange,
+      color: change.skeletalMuscleChange >= 0 ? GOOD_COLOR : BAD_COLOR,
+    },
+    { label: 'Прочая безжировая', change: change.otherLeanChange, color: NEUTRAL_COLOR },
+  ];
+
+  let running = change.from.weight;
+  const floating = steps.map((step) => {
+    const next = parseFloat((running + step.change).toFixed(2));
+    const range: [number, number] = [running, next];
+    running = next;
+    return range;
+  });
+
+  const values = [change.from.weight, change.to.weight, ...floating.flat()];
+  const axisMin = Math.floor(Math.min(...values) - 1);
+  const axisMax = Math.ceil(Math.max(...values) + 1);
+
+  return {
+    data: {
+      labels: ['Вес до', ...steps.map((step) => step.label), 'Вес после'],
+      datasets: [
+        {
+          label: 'Изменение (кг)',
+          data: [[axisMin, change.from.weight], ...floating, [axisMin, change.to.weight]],
+          backgroundColor: [TOTAL_COLOR, ...steps.map((step) => step.color), TOTAL_COLOR],
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            label: (context) => {
+              const index = context.dataIndex;
+              if (index === 0) return `${change.from.weight} кг`;
+              if (index === steps.length + 1) return `${change.to.weight} кг`;
+              return `${formatCompositionChange(steps[index - 1].change)} кг`;
+            },
+          },
+        },
+      },
+      scales: {
+        y: { min: axisMin, max: axisMax, title: { display: true, text: 'кг' } },
+      },
+    },
+  };
+};
+
+const CompositionComparison: React.FC<CompositionComparisonProps> = ({ first, second, onClose }) => {
+  const change = compareMeasurements(first, second);
+  const { data, options } = buildWaterfall(change);
+
+  return (
+    <div className="bg-white rounded-lg shadow-card p-6 mb-8 animate-fade-in">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-800 flex items-center">
+            <ArrowRightLeft className="mr-2 h-5 w-5 text-primary-600" />
+            Изменение состава тела
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {formatDate(change.from.date)} → {formatDate(change.to.date)} ({change.days} дн.)
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+          aria-label="Закрыть сравнение"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Bar data={data} options={options} />
+
+        <div>
+          <table className="min-w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-4 font-medium">Показатель</th>
+                <th className="py-1 pr-4 font-medium">До</th>
+                <th className="py-1 pr-4 font-medium">После</th>
+                <th className="py-1 font-medium">Изменение</th>
+              </tr>
+            </thead>
+            <tbody>
+              {change.deltas.map((delta) => (
+                <tr key={delta.key} className="border-t border-gray-100">
+                  <td className="py-1 pr-4 text-gray-700">{delta.label}</td>
+                  <td className="py-1 pr-4">{delta.from}</td>
+                  <td className="py-1 pr-4">{delta.to}</td>
+                  <td className="py-1 font-medium">
+                    {formatCompositionChange(delta.change)} {delta.unit}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="border-l-4 border-primary-500 pl-4 py-2">
+            <h3 className="font-medium text-gray-900">{change.label}</h3>
+            <p className="text-sm text-gray-700 mt-1">{change.recommendation}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompositionComparison;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { useMeasurements } from '../context/MeasurementContext';
+import { RANGE_PRESETS } from '../utils/dateRange';
+
+// Period selector for charts and the history table. The selection lives in
+// the measurement context so every page shows the same period.
+const DateRangePicker: React.FC = () => {
+  const { dateRange, setDateRange, measurements, visibleMeasurements } = useMeasurements();
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
+      <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Период">
+        {RANGE_PRESETS.map((preset, index) => (
+          <button
+            key={preset.value}
+            type="button"
+            onClick={() => setDateRange({ ...dateRange, preset: preset.value })}
+            className={`px-3 py-1.5 text-sm font-medium border border-gray-300 focus:outline-none ${
+              index === 0 ? 'rounded-l-md' : '-ml-px'
+            } ${index === RANGE_PRESETS.length - 1 ? 'rounded-r-md' : ''} ${
+              dateRange.preset === preset.value
+                ? 'bg-primary-100 text-primary-800 border-primary-300 z-10'
+                : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+            aria-pressed={dateRange.preset === preset.value}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {dateRange.preset === 'custom' && (
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="rangeFrom" className="text-gray-600">
+            с
+          </label>
+          <input
+            type="date"
+            id="rangeFrom"
+            value={dateRange.from}
+            max={dateRange.to || undefined}
+            onChange={(e) => setDateRange({ ...dateRange, from: e.target.value })}
+            className="input py-1"
+          />
+          <label htmlFor="rangeTo" className="text-gray-600">
+            по
+          </label>
+          <input
+            type="date"
+            id="rangeTo"
+            value={dateRange.to}
+            min={dateRange.from || undefined}
+            onChange={(e) => setDateRange({ ...dateRange, to: e.target.value })}
+            className="input py-1"
+          />
+        </div>
+      )}
+
+      <span className="text-sm text-gray-500">
+        Измерений: {visibleMeasurements.length} из {measurements.length}
+      </span>
+    </div>
+  );
+};
+
+export default DateRangePicker;
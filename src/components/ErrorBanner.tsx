@@ -0,0 +1,33 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry, onDismiss }) => {
+  return (
+    <div className="mb-6 flex items-start rounded-lg border border-red-200 bg-red-50 p-4 animate-fade-in">
+      <AlertTriangle className="mr-3 h-5 w-5 flex-shrink-0 text-error-500" />
+      <p className="flex-grow text-sm text-red-700">{message}</p>
+      <button
+        onClick={onRetry}
+        className="ml-4 flex items-center text-sm font-medium text-red-700 hover:text-red-800"
+      >
+        <RefreshCw className="mr-1 h-4 w-4" />
+        Повторить
+      </button>
+      <button
+        onClick={onDismiss}
+        className="ml-3 text-error-500 hover:text-red-700"
+        aria-label="Закрыть"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ErrorBanner;
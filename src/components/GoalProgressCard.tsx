@@ -0,0 +1,100 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Target, Trash2 } from 'lucide-react';
+import { GoalProgress } from '../utils/goals';
+import { getMetricOption } from '../utils/metrics';
+
+interface GoalProgressCardProps {
+  progress: GoalProgress;
+  onDelete?: (id: string) => void;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('ru-RU', { year: 'numeric', month: 'long', day: 'numeric' });
+
+const formatValue = (value: number, unit: string) =>
+  `${parseFloat(value.toFixed(2))}${unit ? ` ${unit}` : ''}`;
+
+// The sign follows the rounded value, so no change reads "0" rather than "−0"
+const formatRate = (value: number, unit: string) => {
+  const rounded = parseFloat(value.toFixed(2));
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : ''}${formatValue(Math.abs(rounded), unit)}`;
+};
+
+const GoalProgressCard: React.FC<GoalProgressCardProps> = ({ progress, onDelete }) => {
+  const { goal, currentValue, achieved, projectedDate, onTrack, weeklyTrend, warning } = progress;
+  const option = getMetricOption(goal.metric);
+  const unit = option?.unit ?? '';
+
+  const getProjection = () => {
+    if (achieved) return 'Цель достигнута';
+    if (weeklyTrend === null) return 'Недостаточно измерений для прогноза';
+    if (!projectedDate) return 'При текущей динамике цель не будет достигнута';
+    return `Прогноз: ${formatDate(projectedDate)}`;
+  };
+
+  const barColor = achieved || onTrack ? 'bg-green-500' : 'bg-yellow-500';
+
+  return (
+    <div className="card animate-fade-in">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-lg font-medium text-gray-700">{option?.label ?? goal.metric}</h3>
+          <p className="text-sm text-gray-500">
+            Цель: {formatValue(goal.targetValue, unit)} к {formatDate(goal.deadline)}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {achieved ? (
+            <CheckCircle className="h-6 w-6 text-green-500" />
+          ) : (
+            <Target className="h-6 w-6 text-primary-500" />
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => onDelete(goal.id)}
+              className="text-gray-400 hover:text-error-500"
+              aria-label="Удалить цель"
+            >
+              <Trash2 className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>Старт: {formatValue(goal.startValue, unit)}</span>
+        <span>Сейчас: {currentValue !== null ? formatValue(currentValue, unit) : '—'}</span>
+      </div>
+      <div
+        className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuenow={progress.progress}
+        aria-valuemin={0}
+        aria-valuemax={100}
+      >
+        <div className={`h-full ${barColor}`} style={{ width: `${progress.progress}%` }} />
+      </div>
+      <div className="flex justify-between text-sm mt-1">
+        <span className="text-gray-700 font-medium">{progress.progress}%</span>
+        <span className={achieved || onTrack ? 'text-green-600' : 'text-gray-600'}>{getProjection()}</span>
+      </div>
+
+      {!achieved && progress.requiredWeeklyRate !== null && (
+        <p className="mt-2 text-xs text-gray-500">
+          Нужно {formatRate(progress.requiredWeeklyRate, unit)} в неделю
+          {weeklyTrend !== null && `, сейчас ${formatRate(weeklyTrend, unit)} в неделю`}
+        </p>
+      )}
+
+      {warning && !achieved && (
+        <div className="mt-3 flex items-start rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+          <span>{warning}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalProgressCard;
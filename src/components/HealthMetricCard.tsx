@@ -8,6 +8,7 @@ interface HealthMetricCardProps {
   unit?: string;
   status?: HealthStatus;
   previousValue?: number;
+  weeklyTrend?: number | null; // change per week over recent measurements
   icon?: React.ReactNode;
 }
 
@@ -17,11 +18,14 @@ const HealthMetricCard: React.FC<HealthMetricCardProps> = ({
   unit = '',
   status,
   previousValue,
+  weeklyTrend,
   icon,
 }) => {
   const percentChange = previousValue 
     ? parseFloat((((Number(value) - previousValue) / previousValue) * 100).toFixed(1))
     : null;
+  // Rounded first so a flat trend shows no sign
+  const roundedTrend = typeof weeklyTrend === 'number' ? parseFloat(weeklyTrend.toFixed(2)) : null;
 
   const getStatusColor = (status: HealthStatus | undefined) => {
     if (!status) return 'bg-gray-100 text-gray-800';
@@ -84,6 +88,14 @@ const HealthMetricCard: React.FC<HealthMetricCardProps> = ({
             {unit && <span className="text-lg ml-1 font-normal text-gray-500">{unit}</span>}
           </div>
           
+          {roundedTrend !== null && (
+            <p className="text-xs text-gray-500 mt-1">
+              Тренд: {roundedTrend > 0 ? '+' : roundedTrend < 0 ? '−' : ''}
+              {Math.abs(roundedTrend)}
+              {unit && ` ${unit}`} в неделю
+            </p>
+          )}
+
           {status && (
             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${getStatusColor(status)}`}>
               {status === 'normal' ? 'Норма' : 
@@ -2,13 +2,69 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Navigation from './Navigation';
 import Footer from './Footer';
+import ErrorBanner from './ErrorBanner';
+import { useUser } from '../context/UserContext';
+import { useMeasurements } from '../context/MeasurementContext';
+import Onboarding from '../pages/Onboarding';
+import { isProfileComplete } from '../utils/validation';
 
 const Layout: React.FC = () => {
+  const {
+    users,
+    user,
+    isLoading: isUserLoading,
+    error: userError,
+    clearError: clearUserError,
+    reload: reloadUsers,
+  } = useUser();
+  const {
+    isLoading: isMeasurementsLoading,
+    error: measurementError,
+    clearError: clearMeasurementError,
+    reload: reloadMeasurements,
+  } = useMeasurements();
+
+  const error = userError || measurementError;
+
+  const retry = () => {
+    if (userError) reloadUsers();
+    if (measurementError) reloadMeasurements();
+  };
+
+  const dismissError = () => {
+    clearUserError();
+    clearMeasurementError();
+  };
+
+  const renderContent = () => {
+    if (isUserLoading || isMeasurementsLoading) {
+      return (
+        <div className="text-center py-12 text-gray-600 animate-pulse-slow">
+          Загрузка данных...
+        </div>
+      );
+    }
+
+    // Profiles could not be loaded, so onboarding would only create a duplicate
+    if (userError && users.length === 0) {
+      return null;
+    }
+
+    // Pages need name, age, gender and height, so collect them first
+    if (!user || !isProfileComplete(user)) {
+      return <Onboarding key={user?.id} />;
+    }
+
+    // Remount the page when the active profile changes so forms start fresh
+    return <Outlet key={user.id} />;
+  };
+
   return (
     <div className="flex flex-col min-h-screen">
       <Navigation />
       <main className="flex-grow container mx-auto px-4 py-8">
-        <Outlet />
+        {error && <ErrorBanner message={error} onRetry={retry} onDismiss={dismissError} />}
+        {renderContent()}
       </main>
       <Footer />
     </div>
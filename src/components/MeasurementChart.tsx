@@ -1,33 +1,44 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import {
   Chart as ChartJS,
-  CategoryScale,
+  TimeScale,
   LinearScale,
   PointElement,
   LineElement,
   Title,
   Tooltip,
   Legend,
-  ChartOptions,
+  Filler,
 } from 'chart.js';
+import zoomPlugin from 'chartjs-plugin-zoom';
 import { Line } from 'react-chartjs-2';
 import { Measurement } from '../types';
+import { buildChartData, buildChartOptions } from '../utils/chartConfig';
+import { ChartMetric, isBodyFatMetric } from '../utils/metrics';
+import { useUser } from '../context/UserContext';
+import { BODY_FAT_METHODS, getBodyFatMethod } from '../utils/bodyFatEstimation';
+import { analyzeTrend } from '../utils/trends';
+import ChartToolbar from './ChartToolbar';
+import StatusColorLegend from './StatusColorLegend';
 
 ChartJS.register(
-  CategoryScale,
+  TimeScale,
   LinearScale,
   PointElement,
   LineElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler,
+  zoomPlugin
 );
 
 interface MeasurementChartProps {
   measurements: Measurement[];
-  metric: keyof Measurement;
+  metric: ChartMetric;
   label: string;
   color?: string;
+  showForecast?: boolean;
 }
 
 const MeasurementChart: React.FC<MeasurementChartProps> = ({
@@ -35,62 +46,53 @@ const MeasurementChart: React.FC<MeasurementChartProps> = ({
   metric,
   label,
   color = 'rgb(59, 130, 246)',
+  showForecast = false,
 }) => {
-  // Sort measurements by date (oldest to newest)
-  const sortedMeasurements = [...measurements].sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
-
-  // Format dates for display
-  const formatDate = (date: Date) => {
-    return new Date(date).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-    });
-  };
+  const { user } = useUser();
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  // Derived indices need the height; pages are only shown once the profile is complete
+  const height = user?.height ?? 0;
+  const data = buildChartData(measurements, metric, label, color, height, {
+    goals: user?.goals,
+    showForecast,
+    user: user ?? undefined,
+  });
+  const options = buildChartOptions();
 
-  // Prepare chart data
-  const data = {
-    labels: sortedMeasurements.map((m) => formatDate(m.date)),
-    datasets: [
-      {
-        label,
-        data: sortedMeasurements.map((m) => Number(m[metric])),
-        borderColor: color,
-        backgroundColor: `${color}33`, // Add alpha for transparency
-        tension: 0.3,
-        fill: true,
-      },
-    ],
-  };
+  // Explain the markers only when some values were not scanned
+  const methods = [...new Set(measurements.map(getBodyFatMethod))];
+  const showMethodLegend = isBodyFatMetric(metric) && methods.some((method) => method !== 'bioimpedance');
 
-  // Chart options
-  const options: ChartOptions<'line'> = {
-    responsive: true,
-    plugins: {
-      legend: {
-        position: 'top' as const,
-      },
-      tooltip: {
-        mode: 'index',
-        intersect: false,
-      },
-    },
-    scales: {
-      y: {
-        beginAtZero: false,
-      },
-    },
-    interaction: {
-      mode: 'nearest',
-      intersect: false,
-    },
-  };
+  const { outliers } = analyzeTrend(measurements, metric, height);
+  const getMeasurementDate = (id: string) =>
+    measurements.find((m) => m.id === id)?.date.toLocaleDateString('ru-RU');
 
   return (
     <div className="bg-white p-4 rounded-lg shadow-card">
-      <h3 className="text-lg font-medium text-gray-700 mb-4">{label} Over Time</h3>
-      <Line data={data} options={options} />
+      <div className="flex items-start justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-700">{label} Over Time</h3>
+        <ChartToolbar chartRef={chartRef} filename={metric} />
+      </div>
+      <Line ref={chartRef} data={data} options={options} />
+      {user && <StatusColorLegend />}
+      {showMethodLegend && (
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+          {methods.map((method) => (
+            <span key={method}>
+              {BODY_FAT_METHODS[method].symbol} {BODY_FAT_METHODS[method].label}
+            </span>
+          ))}
+        </div>
+      )}
+      {outliers.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-red-600">
+          {outliers.map((outlier) => (
+            <li key={outlier.measurementId}>
+              ● {getMeasurementDate(outlier.measurementId)}: {outlier.reason}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import {
+  Chart as ChartJS,
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+} from 'chart.js';
+import zoomPlugin from 'chartjs-plugin-zoom';
+import { Line } from 'react-chartjs-2';
+import { Measurement, User } from '../types';
+import { buildOverlayChartData, buildOverlayChartOptions } from '../utils/chartConfig';
+import { ChartMetric, getMetricOption } from '../utils/metrics';
+import ChartToolbar from './ChartToolbar';
+import StatusColorLegend from './StatusColorLegend';
+
+ChartJS.register(
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+  zoomPlugin
+);
+
+interface MultiMetricChartProps {
+  measurements: Measurement[];
+  metrics: ChartMetric[];
+  user: User;
+}
+
+// Several metrics on a shared time axis, each with its own Y axis and normal range
+const MultiMetricChart: React.FC<MultiMetricChartProps> = ({ measurements, metrics, user }) => {
+  const chartRef = useRef<ChartJS<'line'>>(null);
+  const data = buildOverlayChartData(measurements, metrics, user);
+  const options = buildOverlayChartOptions(metrics);
+  const title = metrics.map((metric) => getMetricOption(metric)?.label ?? metric).join(', ');
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-card">
+      <div className="flex items-start justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-700">{title}</h3>
+        <ChartToolbar chartRef={chartRef} filename={metrics.join('-')} />
+      </div>
+      <Line ref={chartRef} data={data} options={options} />
+      <StatusColorLegend />
+    </div>
+  );
+};
+
+export default MultiMetricChart;
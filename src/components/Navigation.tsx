@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { NavLink } from 'react-router-dom';
-import { Activity, ClipboardList, Home, Menu, User, X } from 'lucide-react';
+import { Activity, ClipboardList, Home, Menu, Target, User, X } from 'lucide-react';
+import ProfileSwitcher from './ProfileSwitcher';
 
 const Navigation: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -17,6 +18,7 @@ const Navigation: React.FC = () => {
     { to: '/', label: 'Главная', icon: <Home size={20} /> },
     { to: '/data-entry', label: 'Ввод данных', icon: <ClipboardList size={20} /> },
     { to: '/reports', label: 'Отчёты', icon: <Activity size={20} /> },
+    { to: '/goals', label: 'Цели', icon: <Target size={20} /> },
     { to: '/profile', label: 'Профиль', icon: <User size={20} /> },
   ];
 
@@ -50,15 +52,19 @@ const Navigation: React.FC = () => {
             ))}
           </nav>
 
-          {/* Mobile menu button */}
-          <div className="md:hidden">
-            <button
-              onClick={toggleMenu}
-              className="text-gray-700 hover:text-primary-600 focus:outline-none"
-              aria-label="Переключить меню"
-            >
-              {isMenuOpen ? <X size={24} /> : <Menu size={24} />}
-            </button>
+          <div className="flex items-center">
+            <ProfileSwitcher />
+
+            {/* Mobile menu button */}
+            <div className="md:hidden ml-2">
+              <button
+                onClick={toggleMenu}
+                className="text-gray-700 hover:text-primary-600 focus:outline-none"
+                aria-label="Переключить меню"
+              >
+                {isMenuOpen ? <X size={24} /> : <Menu size={24} />}
+              </button>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useUser } from '../context/UserContext';
+import { v4 as uuidv4 } from 'uuid';
+import { Check, ChevronDown, Pencil, Plus, Trash2, Users } from 'lucide-react';
+
+const ProfileSwitcher: React.FC = () => {
+  const { users, user, addUser, switchUser, renameUser, deleteUser } = useUser();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const close = () => {
+    setIsOpen(false);
+    setEditingId(null);
+    setIsCreating(false);
+    setNameInput('');
+  };
+
+  const handleSwitch = (id: string) => {
+    switchUser(id);
+    close();
+  };
+
+  const startRename = (id: string, name: string) => {
+    setIsCreating(false);
+    setEditingId(id);
+    setNameInput(name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && nameInput.trim()) {
+      renameUser(editingId, nameInput.trim());
+    }
+    setEditingId(null);
+    setNameInput('');
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameInput.trim()) return;
+
+    addUser({
+      id: uuidv4(),
+      name: nameInput.trim(),
+      age: 0,
+      gender: 'male',
+      height: 0,
+    });
+    // The remaining profile details are collected by the onboarding form
+    close();
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Удалить профиль «${name}» вместе со всеми его измерениями?`)) {
+      deleteUser(id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        className="flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <Users size={18} className="mr-2 text-primary-600" />
+        <span className="max-w-[10rem] truncate">{user?.name || 'Нет профиля'}</span>
+        <ChevronDown size={16} className="ml-1" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-20 animate-fade-in">
+          <p className="px-4 pb-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            Профили
+          </p>
+
+          {users.map((profile) =>
+            editingId === profile.id ? (
+              <form key={profile.id} onSubmit={handleRename} className="px-4 py-2 flex">
+                <input
+                  type="text"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  className="input py-1 text-sm"
+                  aria-label="Новое имя профиля"
+                  autoFocus
+                />
+                <button type="submit" className="ml-2 text-primary-600" aria-label="Сохранить имя">
+                  <Check size={18} />
+                </button>
+              </form>
+            ) : (
+              <div key={profile.id} className="flex items-center px-4 py-2 hover:bg-gray-50">
+                <button
+                  onClick={() => handleSwitch(profile.id)}
+                  className="flex-1 flex items-center text-left text-sm text-gray-800 truncate"
+                >
+                  <span className="w-5">
+                    {profile.id === user?.id && <Check size={16} className="text-primary-600" />}
+                  </span>
+                  <span className="truncate">{profile.name || 'Без имени'}</span>
+                </button>
+                <button
+                  onClick={() => startRename(profile.id, profile.name)}
+                  className="ml-2 text-gray-400 hover:text-primary-600"
+                  aria-label="Переименовать профиль"
+                >
+                  <Pencil size={14} />
+                </button>
+                <button
+                  onClick={() => handleDelete(profile.id, profile.name)}
+                  className="ml-2 text-gray-400 hover:text-error-500"
+                  aria-label="Удалить профиль"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            )
+          )}
+
+          <div className="border-t border-gray-100 mt-2 pt-2">
+            {isCreating ? (
+              <form onSubmit={handleCreate} className="px-4 py-2 flex">
+                <input
+                  type="text"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  className="input py-1 text-sm"
+                  placeholder="Имя нового профиля"
+                  autoFocus
+                />
+                <button type="submit" className="ml-2 text-primary-600" aria-label="Создать профиль">
+                  <Check size={18} />
+                </button>
+              </form>
+            ) : (
+              <button
+                onClick={() => {
+                  setEditingId(null);
+                  setNameInput('');
+                  setIsCreating(true);
+                }}
+                className="w-full flex items-center px-4 py-2 text-sm text-primary-600 hover:bg-gray-50"
+              >
+                <Plus size={16} className="mr-2" />
+                Новый профиль
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
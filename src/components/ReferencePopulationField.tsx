@@ -0,0 +1,47 @@
+import React from 'react';
+import { ReferencePopulation } from '../types';
+import { REFERENCE_POPULATION_LABELS } from '../utils/norms';
+
+interface ReferencePopulationFieldProps {
+  value?: ReferencePopulation;
+  error?: string;
+  onChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+}
+
+// Shown for gender 'other': body composition ranges exist only for men and
+// women, so the user picks which of them to be compared with
+const ReferencePopulationField: React.FC<ReferencePopulationFieldProps> = ({ value, error, onChange }) => {
+  return (
+    <div className="mb-4">
+      <label htmlFor="referencePopulation" className="label">
+        Нормы для сравнения *
+      </label>
+      <select
+        id="referencePopulation"
+        name="referencePopulation"
+        value={value || ''}
+        onChange={onChange}
+        className={`input ${error ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+        required
+      >
+        <option value="" disabled>
+          Выберите группу
+        </option>
+        {(Object.keys(REFERENCE_POPULATION_LABELS) as ReferencePopulation[]).map((population) => (
+          <option key={population} value={population}>
+            {REFERENCE_POPULATION_LABELS[population]}
+          </option>
+        ))}
+      </select>
+      {error ? (
+        <p className="mt-1 text-sm text-error-500">{error}</p>
+      ) : (
+        <p className="mt-1 text-sm text-gray-500">
+          Диапазоны жира, воды и висцерального жира определены отдельно для мужчин и женщин.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReferencePopulationField;
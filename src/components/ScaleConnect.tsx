@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bluetooth, BluetoothOff, Check } from 'lucide-react';
+import { ScaleConnection, connectScale, isBluetoothSupported, isChooserCancelled } from '../utils/bluetoothScale';
+import { ScaleDraft, toDraftMeasurement } from '../utils/scaleGatt';
+
+interface ScaleConnectProps {
+  onConfirm: (draft: ScaleDraft) => void;
+}
+
+type ConnectionState = 'idle' | 'connecting' | 'connected';
+
+const DRAFT_LABELS: Record<keyof ScaleDraft['values'], string> = {
+  weight: 'Вес, кг',
+  bodyFatPercentage: 'Процент жира, %',
+  skeletalMuscleMass: 'Мышечная масса, кг',
+  waterPercentage: 'Процент воды, %',
+  basalMetabolicRate: 'Основной обмен, ккал',
+};
+
+// Pairs with a Bluetooth body composition scale and shows the received
+// reading as a draft until the user moves it into the form
+const ScaleConnect: React.FC<ScaleConnectProps> = ({ onConfirm }) => {
+  const connectionRef = useRef<ScaleConnection | null>(null);
+  const [state, setState] = useState<ConnectionState>('idle');
+  const [deviceName, setDeviceName] = useState('');
+  const [draft, setDraft] = useState<ScaleDraft | null>(null);
+  const [error, setError] = useState('');
+
+  // Leaving the page ends the connection
+  useEffect(() => () => connectionRef.current?.disconnect(), []);
+
+  if (!isBluetoothSupported()) {
+    return (
+      <div className="mb-6 rounded-lg border border-dashed border-gray-300 p-4 text-sm text-gray-500 flex items-center">
+        <BluetoothOff className="mr-2 h-4 w-4 flex-shrink-0" />
+        Подключение весов по Bluetooth доступно в Chrome и Edge на компьютере и Android.
+      </div>
+    );
+  }
+
+  const handleConnect = async () => {
+    setState('connecting');
+    setDraft(null);
+    setError('');
+    try {
+      const connection = await connectScale({
+        onReading: (reading) => setDraft(toDraftMeasurement(reading)),
+        onError: (readingError) => setError(readingError.message),
+        onDisconnect: () => {
+          connectionRef.current = null;
+          setState('idle');
+        },
+      });
+      connectionRef.current = connection;
+      setDeviceName(connection.deviceName);
+      setState('connected');
+    } catch (err) {
+      setState('idle');
+      if (!isChooserCancelled(err)) {
+        setError(err instanceof Error ? err.message : 'Не удалось подключиться к весам');
+      }
+    }
+  };
+
+  const handleDisconnect = () => {
+    connectionRef.current?.disconnect();
+    connectionRef.current = null;
+    setState('idle');
+  };
+
+  const handleConfirm = () => {
+    if (!draft) return;
+    onConfirm(draft);
+    setDraft(null);
+    handleDisconnect();
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-dashed border-gray-300 p-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h2 className="font-medium text-gray-800">Умные весы</h2>
+          <p className="text-sm text-gray-500">
+            {state === 'connected'
+              ? `${deviceName}: встаньте на весы и дождитесь окончания измерения`
+              : 'Весы с поддержкой стандартных служб Bluetooth для взвешивания и состава тела'}
+          </p>
+        </div>
+        {state === 'connected' ? (
+          <button type="button" className="btn-outline flex items-center justify-center" onClick={handleDisconnect}>
+            <BluetoothOff className="mr-2 h-4 w-4" />
+            Отключить
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="btn-outline flex items-center justify-center"
+            onClick={handleConnect}
+            disabled={state === 'connecting'}
+          >
+            <Bluetooth className="mr-2 h-4 w-4" />
+            {state === 'connecting' ? 'Подключение...' : 'Подключить весы'}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mt-4 animate-fade-in">
+          <p className="text-sm text-gray-600 mb-2">
+            Измерение от {draft.date.toLocaleString('ru-RU')}
+          </p>
+          <dl className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+            {(Object.keys(draft.values) as Array<keyof ScaleDraft['values']>).map((field) => (
+              <div key={field}>
+                <dt className="text-xs text-gray-500">{DRAFT_LABELS[field]}</dt>
+                <dd className="font-medium text-gray-900">{draft.values[field]}</dd>
+              </div>
+            ))}
+          </dl>
+          {draft.notes.map((note) => (
+            <p key={note} className="text-sm text-yellow-700 mb-2">
+              {note}
+            </p>
+          ))}
+          <button type="button" className="btn-primary flex items-center" onClick={handleConfirm}>
+            <Check className="mr-2 h-4 w-4" />
+            Подставить в форму
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-3 text-sm text-error-500">{error}</p>}
+    </div>
+  );
+};
+
+export default ScaleConnect;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { PersonStanding } from 'lucide-react';
+import { BodySegment, SegmentalAnalysis } from '../types';
+import {
+  BODY_SEGMENTS,
+  calculateLimbImbalances,
+  ImbalanceLevel,
+  SEGMENT_LABELS,
+} from '../utils/bodyMeasurements';
+
+interface SegmentalBodyMapProps {
+  segmental: SegmentalAnalysis;
+}
+
+// Front view: the person's left side is drawn on the viewer's right
+const SEGMENT_SHAPES: Record<BodySegment, { x: number; y: number; width: number; height: number }> = {
+  rightArm: { x: 22, y: 62, width: 22, height: 96 },
+  trunk: { x: 50, y: 58, width: 60, height: 100 },
+  leftArm: { x: 116, y: 62, width: 22, height: 96 },
+  rightLeg: { x: 52, y: 164, width: 26, height: 110 },
+  leftLeg: { x: 82, y: 164, width: 26, height: 110 },
+};
+
+const LEVEL_FILL: Record<ImbalanceLevel | 'none', string> = {
+  none: '#e5e7eb',
+  balanced: '#bbf7d0',
+  mild: '#fde68a',
+  significant: '#fca5a5',
+};
+
+const LEVEL_LABELS: Record<ImbalanceLevel, string> = {
+  balanced: 'Сбалансировано',
+  mild: 'Умеренная асимметрия',
+  significant: 'Выраженная асимметрия',
+};
+
+const LEVEL_BADGES: Record<ImbalanceLevel, string> = {
+  balanced: 'badge-green',
+  mild: 'badge-yellow',
+  significant: 'badge-red',
+};
+
+const LIMB_LABELS = { arms: 'Руки', legs: 'Ноги' };
+
+const formatValue = (value?: number) => (value !== undefined ? `${value} кг` : '—');
+
+const SegmentalBodyMap: React.FC<SegmentalBodyMapProps> = ({ segmental }) => {
+  const imbalances = calculateLimbImbalances(segmental);
+
+  // Only the weaker side of an imbalanced pair is highlighted
+  const getFill = (segment: BodySegment) => {
+    if (segmental[segment]?.lean === undefined) return LEVEL_FILL.none;
+    const imbalance = imbalances.find((item) => item.weakerSide === segment);
+    return LEVEL_FILL[imbalance?.level ?? 'balanced'];
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-card p-6 mb-8">
+      <h2 className="text-lg font-medium text-gray-800 mb-4 flex items-center">
+        <PersonStanding className="mr-2 h-5 w-5 text-primary-600" />
+        Сегментарный анализ
+      </h2>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <svg viewBox="0 0 160 280" className="w-40 h-72 mx-auto md:mx-0 flex-shrink-0" role="img" aria-label="Карта тела">
+          <circle cx="80" cy="30" r="22" fill={LEVEL_FILL.none} />
+          {BODY_SEGMENTS.map((segment) => {
+            const shape = SEGMENT_SHAPES[segment];
+            return (
+              <rect
+                key={segment}
+                {...shape}
+                rx="10"
+                fill={getFill(segment)}
+                stroke="#9ca3af"
+                strokeWidth="1"
+              >
+                <title>
+                  {`${SEGMENT_LABELS[segment]}: безжировая ${formatValue(segmental[segment]?.lean)}, жировая ${formatValue(segmental[segment]?.fat)}`}
+                </title>
+              </rect>
+            );
+          })}
+          <text x="33" y="176" textAnchor="middle" fontSize="10" fill="#6b7280">П</text>
+          <text x="127" y="176" textAnchor="middle" fontSize="10" fill="#6b7280">Л</text>
+        </svg>
+
+        <div className="flex-1">
+          <table className="min-w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-4 font-medium">Сегмент</th>
+                <th className="py-1 pr-4 font-medium">Безжировая масса</th>
+                <th className="py-1 font-medium">Жировая масса</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BODY_SEGMENTS.map((segment) => (
+                <tr key={segment} className="border-t border-gray-100">
+                  <td className="py-1 pr-4 text-gray-700">{SEGMENT_LABELS[segment]}</td>
+                  <td className="py-1 pr-4">{formatValue(segmental[segment]?.lean)}</td>
+                  <td className="py-1">{formatValue(segmental[segment]?.fat)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {imbalances.length > 0 ? (
+            <ul className="space-y-2">
+              {imbalances.map((imbalance) => (
+                <li key={imbalance.limb} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                  <span className="font-medium">{LIMB_LABELS[imbalance.limb]}:</span>
+                  <span>разница {imbalance.difference}%</span>
+                  <span className={LEVEL_BADGES[imbalance.level]}>{LEVEL_LABELS[imbalance.level]}</span>
+                  {imbalance.weakerSide && (
+                    <span className="text-gray-500">слабее: {SEGMENT_LABELS[imbalance.weakerSide].toLowerCase()}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Для оценки асимметрии укажите безжировую массу обеих рук или обеих ног.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentalBodyMap;
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Loader2 } from 'lucide-react';
+import { SheetFormValues, parseInBodySheet, toFormValues } from '../utils/inbodySheet';
+
+interface SheetScanImportProps {
+  onRecognized: (result: SheetFormValues) => void;
+}
+
+// Reads a photo or PDF of an InBody result sheet in the browser and hands
+// the recognized values to the form for review
+const SheetScanImport: React.FC<SheetScanImportProps> = ({ onRecognized }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRecognizing, setIsRecognizing] = useState(false);
+  const [status, setStatus] = useState('');
+  const [progress, setProgress] = useState(0);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsRecognizing(true);
+    setMessage('');
+    setError('');
+    try {
+      // The OCR engine and its model are large, so they are only loaded on use
+      const { recognizeSheet } = await import('../utils/ocr');
+      const lines = await recognizeSheet(file, (nextStatus, nextProgress) => {
+        setStatus(nextStatus);
+        setProgress(nextProgress);
+      });
+      const result = toFormValues(parseInBodySheet(lines));
+      const found = Object.keys(result.values).length;
+      if (found === 0) {
+        setError('Не удалось найти показатели на изображении. Попробуйте более четкое фото или введите значения вручную.');
+        return;
+      }
+      onRecognized(result);
+      setMessage(`Распознано показателей: ${found}. Проверьте выделенные поля перед сохранением.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Не удалось распознать файл');
+    } finally {
+      setIsRecognizing(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-dashed border-gray-300 p-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h2 className="font-medium text-gray-800">Заполнить по фото бланка InBody</h2>
+          <p className="text-sm text-gray-500">
+            Поддерживаются бланки на английском языке. Фото или PDF распознается прямо в браузере и никуда
+            не отправляется
+          </p>
+        </div>
+        <button
+          type="button"
+          className="btn-outline flex items-center justify-center"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecognizing}
+        >
+          {isRecognizing ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Camera className="mr-2 h-4 w-4" />
+          )}
+          Загрузить фото или PDF
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,application/pdf,.pdf"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {isRecognizing && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>{status}</span>
+            <span>{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+            <div className="h-full bg-primary-500 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+      {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+      {error && <p className="mt-3 text-sm text-error-500">{error}</p>}
+    </div>
+  );
+};
+
+export default SheetScanImport;
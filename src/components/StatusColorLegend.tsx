@@ -0,0 +1,23 @@
+import React from 'react';
+import { HealthStatus } from '../types';
+import { getStatusLabel } from '../utils/healthCalculations';
+import { STATUS_COLORS } from '../utils/metricStatus';
+
+// One entry per colour; the remaining statuses share these colours
+const LEGEND_STATUSES: HealthStatus[] = ['low', 'normal', 'high', 'very-high'];
+
+const StatusColorLegend: React.FC = () => (
+  <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+    {LEGEND_STATUSES.map((status) => (
+      <span key={status} className="inline-flex items-center">
+        <span
+          className="inline-block h-2.5 w-2.5 rounded-full mr-1.5"
+          style={{ backgroundColor: STATUS_COLORS[status] }}
+        />
+        {getStatusLabel(status)}
+      </span>
+    ))}
+  </div>
+);
+
+export default StatusColorLegend;
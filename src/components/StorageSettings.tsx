@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Database } from 'lucide-react';
+import {
+  API_BASE_URL,
+  StorageMode,
+  getLocalRepository,
+  getStorageErrorMessage,
+  getStorageMode,
+  setStorageMode,
+} from '../utils/repository';
+import { createApiClient } from '../utils/apiClient';
+import { createRestSyncAdapter, pullFromServer, syncOutbox } from '../utils/sync';
+
+const StorageSettings: React.FC = () => {
+  const currentMode = getStorageMode();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState('');
+
+  // Local changes are pushed to the server before switching to it, and the
+  // server's data is copied into this browser before switching back, so
+  // nothing is left behind on either side
+  const switchMode = async (mode: StorageMode) => {
+    if (mode === currentMode) return;
+
+    setError('');
+    setIsSwitching(true);
+    try {
+      const client = createApiClient({ baseUrl: API_BASE_URL });
+      if (mode === 'remote') {
+        const { pending } = await syncOutbox(getLocalRepository(), createRestSyncAdapter(client));
+        if (pending > 0) {
+          throw new Error(`Не удалось отправить на сервер изменений: ${pending}`);
+        }
+      } else {
+        await pullFromServer(client, getLocalRepository());
+      }
+      setStorageMode(mode);
+      window.location.reload();
+    } catch (switchError) {
+      setError(getStorageErrorMessage(switchError));
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow-card p-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start">
+          <Database className="h-6 w-6 text-primary-600 flex-shrink-0" />
+          <div className="ml-3">
+            <h3 className="text-lg font-medium text-gray-800">Хранение данных</h3>
+            <p className="text-gray-600 text-sm mt-1">
+              Локально данные хранятся только в этом браузере. На сервере они доступны с любого устройства.
+            </p>
+          </div>
+        </div>
+        <select
+          id="storageMode"
+          value={currentMode}
+          onChange={(e) => switchMode(e.target.value as StorageMode)}
+          className="input ml-4 w-auto"
+          disabled={isSwitching}
+        >
+          <option value="local">В браузере</option>
+          <option value="remote">На сервере</option>
+        </select>
+      </div>
+
+      {isSwitching && (
+        <p className="mt-4 text-sm text-gray-600 animate-pulse-slow">
+          {currentMode === 'local' ? 'Отправка данных на сервер...' : 'Загрузка данных с сервера...'}
+        </p>
+      )}
+      {error && <p className="mt-4 text-sm text-error-500">{error}</p>}
+    </div>
+  );
+};
+
+export default StorageSettings;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Undo2 } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo }) => {
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center bg-gray-900 text-white rounded-lg shadow-lg px-4 py-3 animate-fade-in">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={onUndo}
+        className="ml-4 flex items-center text-sm font-medium text-primary-300 hover:text-primary-200"
+      >
+        <Undo2 className="mr-1 h-4 w-4" />
+        Отменить
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -1,9 +1,30 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useMemo, ReactNode } from 'react';
 import { Measurement } from '../types';
+import {
+  DEFAULT_DATE_RANGE,
+  DateRangeSelection,
+  filterByDateRange,
+  resolveDateRange,
+  sortByDate,
+} from '../utils/dateRange';
+import { getRepository, getStorageErrorMessage } from '../utils/repository';
+import { takeStorageNotice } from '../utils/storage';
+import { useUser } from './UserContext';
 
 interface MeasurementContextType {
-  measurements: Measurement[];
+  measurements: Measurement[]; // sorted by date, oldest first
+  // The period shown in charts and the history table, shared between pages
+  dateRange: DateRangeSelection;
+  setDateRange: (range: DateRangeSelection) => void;
+  visibleMeasurements: Measurement[];
+  isLoading: boolean;
+  error: string | null;
+  clearError: () => void;
+  reload: () => void;
   addMeasurement: (measurement: Measurement) => void;
+  importMeasurements: (imported: Measurement[]) => number;
+  updateMeasurement: (measurement: Measurement) => void;
+  deleteMeasurement: (id: string) => Measurement | undefined;
   getMeasurementById: (id: string) => Measurement | undefined;
   getLatestMeasurement: () => Measurement | undefined;
 }
@@ -11,19 +32,126 @@ interface MeasurementContextType {
 const MeasurementContext = createContext<MeasurementContextType | undefined>(undefined);
 
 export const MeasurementProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [measurements, setMeasurements] = useState<Measurement[]>(() => {
-    // Load measurements from localStorage on initial render
-    const savedMeasurements = localStorage.getItem('measurements');
-    return savedMeasurements ? JSON.parse(savedMeasurements) : [];
-  });
+  const { user } = useUser();
+  const userId = user?.id;
 
-  // Save measurements to localStorage whenever they change
-  React.useEffect(() => {
-    localStorage.setItem('measurements', JSON.stringify(measurements));
-  }, [measurements]);
+  const repository = getRepository();
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [loadedUserId, setLoadedUserId] = useState<string | undefined>(undefined);
+  // Until the active profile's measurements arrive the list belongs to someone else
+  const isLoading = loadedUserId !== userId;
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [dateRange, setDateRange] = useState<DateRangeSelection>(DEFAULT_DATE_RANGE);
+
+  // Load measurements whenever the active profile changes and on retry
+  useEffect(() => {
+    if (!userId) {
+      setMeasurements([]);
+      setLoadedUserId(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    repository
+      .getMeasurements(userId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setMeasurements(loaded);
+        setLoadedUserId(userId);
+        const notice = takeStorageNotice();
+        if (notice) setError(notice);
+      })
+      .catch((loadError) => {
+        if (cancelled) return;
+        setError(getStorageErrorMessage(loadError));
+        setMeasurements([]);
+        setLoadedUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, userId, reloadCount]);
+
+  const reload = () => {
+    setError(null);
+    setReloadCount((count) => count + 1);
+  };
+
+  const clearError = () => setError(null);
+
+  // Changes are applied to the state right away and rolled back if the
+  // repository rejects them
+  const persist = (operation: Promise<void>, rollback: () => void) => {
+    operation.catch((saveError) => {
+      rollback();
+      setError(getStorageErrorMessage(saveError));
+    });
+  };
+
+  // Measurements can be entered out of date order, so consumers always get them sorted
+  const sortedMeasurements = useMemo(() => sortByDate(measurements), [measurements]);
+  const visibleMeasurements = useMemo(() => {
+    const { from, to } = resolveDateRange(dateRange);
+    return filterByDateRange(sortedMeasurements, from, to);
+  }, [sortedMeasurements, dateRange]);
 
   const addMeasurement = (measurement: Measurement) => {
     setMeasurements((prevMeasurements) => [...prevMeasurements, measurement]);
+    persist(repository.saveMeasurements([measurement]), () =>
+      setMeasurements((prevMeasurements) => prevMeasurements.filter((m) => m.id !== measurement.id))
+    );
+  };
+
+  // Merge measurements from an external source, skipping ones already stored
+  // (same id or same timestamp). Returns the number of measurements added.
+  const importMeasurements = (imported: Measurement[]) => {
+    const knownIds = new Set(measurements.map((m) => m.id));
+    const knownDates = new Set(measurements.map((m) => m.date.getTime()));
+    const added: Measurement[] = [];
+
+    imported.forEach((measurement) => {
+      const time = measurement.date.getTime();
+      if (knownIds.has(measurement.id) || knownDates.has(time)) return;
+      knownIds.add(measurement.id);
+      knownDates.add(time);
+      added.push(measurement);
+    });
+
+    if (added.length > 0) {
+      setMeasurements((prevMeasurements) => [...prevMeasurements, ...added]);
+      const addedIds = new Set(added.map((m) => m.id));
+      persist(repository.saveMeasurements(added), () =>
+        setMeasurements((prevMeasurements) => prevMeasurements.filter((m) => !addedIds.has(m.id)))
+      );
+    }
+    return added.length;
+  };
+
+  const updateMeasurement = (measurement: Measurement) => {
+    const previous = measurements.find((m) => m.id === measurement.id);
+    setMeasurements((prevMeasurements) =>
+      prevMeasurements.map((m) => (m.id === measurement.id ? measurement : m))
+    );
+    persist(repository.saveMeasurements([measurement]), () => {
+      if (!previous) return;
+      setMeasurements((prevMeasurements) =>
+        prevMeasurements.map((m) => (m.id === previous.id ? previous : m))
+      );
+    });
+  };
+
+  // Returns the removed measurement so the caller can offer an undo
+  const deleteMeasurement = (id: string) => {
+    const deleted = measurements.find((m) => m.id === id);
+    if (!deleted) return undefined;
+
+    setMeasurements((prevMeasurements) => prevMeasurements.filter((m) => m.id !== id));
+    persist(repository.deleteMeasurement(deleted), () =>
+      setMeasurements((prevMeasurements) => [...prevMeasurements, deleted])
+    );
+    return deleted;
   };
 
   const getMeasurementById = (id: string) => {
@@ -31,19 +159,24 @@ export const MeasurementProvider: React.FC<{ children: ReactNode }> = ({ childre
   };
 
   const getLatestMeasurement = () => {
-    if (measurements.length === 0) return undefined;
-    
-    // Sort by date and get the most recent
-    return [...measurements].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    )[0];
+    return sortedMeasurements[sortedMeasurements.length - 1];
   };
 
   return (
     <MeasurementContext.Provider 
       value={{ 
-        measurements, 
+        measurements: sortedMeasurements, 
+        dateRange,
+        setDateRange,
+        visibleMeasurements,
+        isLoading,
+        error,
+        clearError,
+        reload,
         addMeasurement, 
+        importMeasurements,
+        updateMeasurement,
+        deleteMeasurement,
         getMeasurementById, 
         getLatestMeasurement 
       }}
@@ -1,23 +1,218 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
-import { User } from '../types';
-import { mockUser } from '../utils/mockData';
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { Goal, User } from '../types';
+import { generateMockMeasurements, mockUser } from '../utils/mockData';
+import {
+  ACTIVE_USER_SETTING,
+  getRepository,
+  getStorageErrorMessage,
+  getStorageMode,
+  migrateFromLocalStorage,
+} from '../utils/repository';
+import { takeStorageNotice } from '../utils/storage';
 
 interface UserContextType {
+  users: User[];
   user: User | null;
+  isLoading: boolean;
+  error: string | null;
+  clearError: () => void;
+  reload: () => void;
   updateUser: (user: User) => void;
+  addUser: (user: User) => void;
+  switchUser: (id: string) => void;
+  renameUser: (id: string, name: string) => void;
+  deleteUser: (id: string) => void;
+  addGoal: (goal: Goal) => void;
+  deleteGoal: (id: string) => void;
+  isDemoMode: boolean;
+  setDemoMode: (enabled: boolean) => void;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 export const UserProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(mockUser);
+  const repository = getRepository();
+  const [users, setUsers] = useState<User[]>([]);
+  const [activeUserId, setActiveUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
 
+  // Load profiles on initial render and on retry
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      if (getStorageMode() === 'local') {
+        await migrateFromLocalStorage(repository);
+      }
+      const [storedUsers, savedId] = await Promise.all([
+        repository.getUsers(),
+        repository.getSetting<string>(ACTIVE_USER_SETTING),
+      ]);
+      if (cancelled) return;
+
+      setUsers(storedUsers);
+      setActiveUserId(
+        storedUsers.some((u) => u.id === savedId) ? savedId! : storedUsers[0]?.id || null
+      );
+      const notice = takeStorageNotice();
+      if (notice) setError(notice);
+      setIsLoading(false);
+    };
+
+    load().catch((loadError) => {
+      if (cancelled) return;
+      setError(getStorageErrorMessage(loadError));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, reloadCount]);
+
+  const reload = () => {
+    setError(null);
+    setReloadCount((count) => count + 1);
+  };
+
+  const clearError = () => setError(null);
+
+  // Changes are applied to the state right away and rolled back if the
+  // repository rejects them
+  const persist = (operation: Promise<void>, rollback: () => void) => {
+    operation.catch((saveError) => {
+      rollback();
+      setError(getStorageErrorMessage(saveError));
+    });
+  };
+
+  const user = users.find((u) => u.id === activeUserId) || null;
+
+  const activate = (id: string | null) => {
+    setActiveUserId(id);
+    repository
+      .setSetting(ACTIVE_USER_SETTING, id)
+      .catch((saveError) => setError(getStorageErrorMessage(saveError)));
+  };
+
+  // Updates an existing profile or adds it if it is not known yet
   const updateUser = (updatedUser: User) => {
-    setUser(updatedUser);
+    const previousUsers = users;
+    setUsers((prevUsers) =>
+      prevUsers.some((u) => u.id === updatedUser.id)
+        ? prevUsers.map((u) => (u.id === updatedUser.id ? updatedUser : u))
+        : [...prevUsers, updatedUser]
+    );
+    persist(repository.saveUser(updatedUser), () => setUsers(previousUsers));
+    activate(updatedUser.id);
+  };
+
+  const addUser = (newUser: User) => {
+    const previousActiveUserId = activeUserId;
+    setUsers((prevUsers) => [...prevUsers, newUser]);
+    persist(repository.saveUser(newUser), () => {
+      setUsers((prevUsers) => prevUsers.filter((u) => u.id !== newUser.id));
+      activate(previousActiveUserId);
+    });
+    activate(newUser.id);
+  };
+
+  const switchUser = (id: string) => {
+    if (users.some((u) => u.id === id)) {
+      activate(id);
+    }
+  };
+
+  const renameUser = (id: string, name: string) => {
+    const existing = users.find((u) => u.id === id);
+    if (!existing) return;
+
+    const renamed = { ...existing, name };
+    setUsers((prevUsers) => prevUsers.map((u) => (u.id === id ? renamed : u)));
+    persist(repository.saveUser(renamed), () =>
+      setUsers((prevUsers) => prevUsers.map((u) => (u.id === id ? existing : u)))
+    );
+  };
+
+  // Goals are stored with the active profile
+  const updateGoals = (update: (goals: Goal[]) => Goal[]) => {
+    if (!user) return;
+
+    const updated = { ...user, goals: update(user.goals ?? []) };
+    setUsers((prevUsers) => prevUsers.map((u) => (u.id === user.id ? updated : u)));
+    persist(repository.saveUser(updated), () =>
+      setUsers((prevUsers) => prevUsers.map((u) => (u.id === user.id ? user : u)))
+    );
+  };
+
+  const addGoal = (goal: Goal) => updateGoals((goals) => [...goals, goal]);
+
+  const deleteGoal = (id: string) => updateGoals((goals) => goals.filter((goal) => goal.id !== id));
+
+  // Deleting a profile also deletes all of its measurements
+  const deleteUser = (id: string) => {
+    const previousUsers = users;
+    const previousActiveUserId = activeUserId;
+    const remainingUsers = users.filter((u) => u.id !== id);
+    setUsers(remainingUsers);
+    persist(repository.deleteUser(id), () => {
+      setUsers(previousUsers);
+      activate(previousActiveUserId);
+    });
+    if (activeUserId === id) {
+      activate(remainingUsers[0]?.id || null);
+    }
+  };
+
+  const isDemoMode = users.some((u) => u.id === mockUser.id);
+
+  // Demo mode adds a sample profile with generated measurements; turning it
+  // off removes both again
+  const setDemoMode = (enabled: boolean) => {
+    if (enabled === isDemoMode) {
+      if (enabled) activate(mockUser.id);
+      return;
+    }
+
+    if (enabled) {
+      // The measurements must be stored before the profile becomes active,
+      // otherwise the measurement context would load an empty list
+      repository
+        .saveUser(mockUser)
+        .then(() => repository.saveMeasurements(generateMockMeasurements(mockUser.id)))
+        .then(() => {
+          setUsers((prevUsers) => [...prevUsers, mockUser]);
+          activate(mockUser.id);
+        })
+        .catch((saveError) => setError(getStorageErrorMessage(saveError)));
+    } else {
+      deleteUser(mockUser.id);
+    }
   };
 
   return (
-    <UserContext.Provider value={{ user, updateUser }}>
+    <UserContext.Provider
+      value={{
+        users,
+        user,
+        isLoading,
+        error,
+        clearError,
+        reload,
+        updateUser,
+        addUser,
+        switchUser,
+        renameUser,
+        deleteUser,
+        addGoal,
+        deleteGoal,
+        isDemoMode,
+        setDemoMode,
+      }}
+    >
       {children}
     </UserContext.Provider>
   );
@@ -29,4 +224,4 @@ export const useUser = (): UserContextType => {
     throw new Error('useUser должен использоваться внутри UserProvider');
   }
   return context;
-};
\ No newline at end of file
+};
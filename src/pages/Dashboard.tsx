@@ -2,19 +2,26 @@ import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useUser } from '../context/UserContext';
 import { useMeasurements } from '../context/MeasurementContext';
-import { HealthStatus, AnalysisResult } from '../types';
+import { AnalysisResult } from '../types';
 import { generateAnalysis } from '../utils/healthCalculations';
 import HealthMetricCard from '../components/HealthMetricCard';
 import MeasurementChart from '../components/MeasurementChart';
+import DateRangePicker from '../components/DateRangePicker';
 import AnalysisResultCard from '../components/AnalysisResultCard';
+import SegmentalBodyMap from '../components/SegmentalBodyMap';
+import GoalProgressCard from '../components/GoalProgressCard';
+import { evaluateGoal } from '../utils/goals';
+import { calculateWeeklyTrend } from '../utils/trends';
+import { hasSegmentalData } from '../utils/bodyMeasurements';
 import { Weight, HeartPulse, Dumbbell, Gauge, Plus, Activity } from 'lucide-react';
 
 const Dashboard: React.FC = () => {
   const { user } = useUser();
-  const { measurements, getLatestMeasurement } = useMeasurements();
+  const { measurements, visibleMeasurements, getLatestMeasurement } = useMeasurements();
   const [analysis, setAnalysis] = useState<AnalysisResult[]>([]);
   
   const latestMeasurement = getLatestMeasurement();
+  // measurements are sorted by date, so the one before the latest is second to last
   const previousMeasurement = measurements.length > 1 
     ? measurements[measurements.length - 2] 
     : undefined;
@@ -73,6 +80,7 @@ const Dashboard: React.FC = () => {
           value={latestMeasurement.weight}
           unit="кг"
           previousValue={previousMeasurement?.weight}
+          weeklyTrend={calculateWeeklyTrend(measurements, 'weight', user.height)}
           icon={<Weight size={24} />}
         />
         <HealthMetricCard
@@ -81,6 +89,7 @@ const Dashboard: React.FC = () => {
           unit="%"
           status={analysis.find(a => a.parameter.includes('жира'))?.status}
           previousValue={previousMeasurement?.bodyFatPercentage}
+          weeklyTrend={calculateWeeklyTrend(measurements, 'bodyFatPercentage', user.height)}
           icon={<HeartPulse size={24} />}
         />
         <HealthMetricCard
@@ -88,6 +97,7 @@ const Dashboard: React.FC = () => {
           value={latestMeasurement.skeletalMuscleMass}
           unit="кг"
           previousValue={previousMeasurement?.skeletalMuscleMass}
+          weeklyTrend={calculateWeeklyTrend(measurements, 'skeletalMuscleMass', user.height)}
           icon={<Dumbbell size={24} />}
         />
         <HealthMetricCard
@@ -95,26 +105,48 @@ const Dashboard: React.FC = () => {
           value={latestMeasurement.bmi}
           status={analysis.find(a => a.parameter.includes('ИМТ'))?.status}
           previousValue={previousMeasurement?.bmi}
+          weeklyTrend={calculateWeeklyTrend(measurements, 'bmi', user.height)}
           icon={<Gauge size={24} />}
         />
       </div>
 
+      {user.goals && user.goals.length > 0 && (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-800">Цели</h2>
+            <Link to="/goals" className="text-sm text-primary-600 hover:text-primary-700">
+              Управлять целями
+            </Link>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            {user.goals.map((goal) => (
+              <GoalProgressCard key={goal.id} progress={evaluateGoal(goal, measurements, user.height)} />
+            ))}
+          </div>
+        </>
+      )}
+
       <h2 className="text-xl font-semibold text-gray-800 mb-4">Тенденции</h2>
+      <DateRangePicker />
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
         <MeasurementChart
-          measurements={measurements}
+          measurements={visibleMeasurements}
           metric="weight"
           label="Вес (кг)"
           color="rgb(59, 130, 246)"
         />
         <MeasurementChart
-          measurements={measurements}
+          measurements={visibleMeasurements}
           metric="bodyFatPercentage"
           label="Жировая масса (%)"
           color="rgb(239, 68, 68)"
         />
       </div>
 
+      {latestMeasurement.segmental && hasSegmentalData(latestMeasurement) && (
+        <SegmentalBodyMap segmental={latestMeasurement.segmental} />
+      )}
+
       <h2 className="text-xl font-semibold text-gray-800 mb-4">Анализ и рекомендации</h2>
       <div className="mb-8">
         {analysis.map((result, index) => (
@@ -1,29 +1,74 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useUser } from '../context/UserContext';
 import { useMeasurements } from '../context/MeasurementContext';
-import { Measurement } from '../types';
+import { BodyFatMethod, Girths, Measurement, SegmentalAnalysis } from '../types';
 import { calculateBMI } from '../utils/healthCalculations';
+import {
+  BODY_FAT_METHODS,
+  ESTIMATION_INPUT_LABELS,
+  EstimationInput,
+  estimateBodyFat,
+  getBodyFatMethod,
+} from '../utils/bodyFatEstimation';
+import { getReferencePopulation } from '../utils/norms';
+import { compactGirths, compactSegmental } from '../utils/bodyMeasurements';
+import BodyMeasurementsSection from '../components/BodyMeasurementsSection';
+import SheetScanImport from '../components/SheetScanImport';
+import ScaleConnect from '../components/ScaleConnect';
+import { validateMeasurement } from '../utils/validation';
+import { isSameDay, toDateTimeInputValue } from '../utils/dateRange';
+import { ConfidenceLevel, FormField, SheetFormValues, getConfidenceLevel } from '../utils/inbodySheet';
+import { ScaleDraft } from '../utils/scaleGatt';
 import { v4 as uuidv4 } from 'uuid';
-import { Save, X } from 'lucide-react';
+import { AlertTriangle, Save, X } from 'lucide-react';
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, { input: string; hint: string }> = {
+  high: { input: 'bg-green-50 border-green-300', hint: 'text-green-700' },
+  medium: { input: 'bg-yellow-50 border-yellow-300', hint: 'text-yellow-700' },
+  low: { input: 'bg-red-50 border-red-300', hint: 'text-red-700' },
+};
+
+// Optional values that were left empty are not stored
+const optionalValue = (value: number | undefined) =>
+  value !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+
+// Fat mass and PBF together with the weight and body fat they were measured with
+type MeasuredComposition = Pick<Measurement, 'weight' | 'bodyFatPercentage' | 'bodyFatMass' | 'pbf'>;
 
 const DataEntry: React.FC = () => {
   const { user } = useUser();
-  const { addMeasurement } = useMeasurements();
+  const { measurements, addMeasurement, updateMeasurement, getMeasurementById } = useMeasurements();
   const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const existingMeasurement = id ? getMeasurementById(id) : undefined;
+  const isEditing = Boolean(id);
   
-  const [formData, setFormData] = useState<Partial<Measurement>>({
+  const [formData, setFormData] = useState<Partial<Measurement>>(existingMeasurement || {
     weight: 0,
     bodyFatMass: 0,
     bodyFatPercentage: 0,
     skeletalMuscleMass: 0,
-    visceralFat: 0,
-    waterPercentage: 0,
-    basalMetabolicRate: 0,
   });
 
+  const [measurementDate, setMeasurementDate] = useState(
+    toDateTimeInputValue(existingMeasurement ? existingMeasurement.date : new Date())
+  );
+
+  const [bodyFatMethod, setBodyFatMethod] = useState<BodyFatMethod>(
+    existingMeasurement ? getBodyFatMethod(existingMeasurement) : 'bioimpedance'
+  );
+  const [estimationValues, setEstimationValues] = useState<Partial<Record<EstimationInput, number>>>({});
+  const [girths, setGirths] = useState<Girths>(existingMeasurement?.girths || {});
+  const [segmental, setSegmental] = useState<SegmentalAnalysis>(existingMeasurement?.segmental || {});
+
+  // Device values are kept on save unless the weight or body fat they belong to changed
+  const [measuredComposition, setMeasuredComposition] = useState<MeasuredComposition | null>(existingMeasurement ?? null);
+
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [formSubmitted, setFormSubmitted] = useState(false);
+  // OCR confidence of values filled from a sheet; cleared once a field is edited
+  const [recognizedConfidence, setRecognizedConfidence] = useState<Partial<Record<FormField, number>>>({});
 
   if (!user) {
     return (
@@ -38,14 +83,34 @@ const DataEntry: React.FC = () => {
     );
   }
 
+  if (isEditing && !existingMeasurement) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-semibold text-gray-700 mb-4">
+          Измерение не найдено
+        </h2>
+        <p className="text-gray-600 mb-6">
+          Возможно, оно было удалено. Вернитесь к истории измерений.
+        </p>
+      </div>
+    );
+  }
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    const numberValue = parseFloat(value);
+    // A cleared field is missing rather than NaN
+    const numberValue = value === '' ? undefined : parseFloat(value);
     
     setFormData({
       ...formData,
       [name]: numberValue,
     });
+
+    if (name in recognizedConfidence) {
+      const rest = { ...recognizedConfidence };
+      delete rest[name as FormField];
+      setRecognizedConfidence(rest);
+    }
     
     // Clear error when field is modified
     if (errors[name]) {
@@ -56,31 +121,118 @@ const DataEntry: React.FC = () => {
     }
   };
 
-  const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-    
-    // Required fields
-    if (!formData.weight || formData.weight <= 0) {
-      newErrors.weight = 'Требуется указать вес больше 0';
+  const handleDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMeasurementDate(e.target.value);
+
+    if (errors.date) {
+      setErrors({
+        ...errors,
+        date: '',
+      });
     }
-    
-    if (!formData.bodyFatPercentage || formData.bodyFatPercentage < 0) {
-      newErrors.bodyFatPercentage = 'Требуется указать процент жира (неотрицательное число)';
+  };
+
+  const handleEstimationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setEstimationValues({
+      ...estimationValues,
+      [name]: parseFloat(value),
+    });
+
+    if (errors.bodyFatPercentage) {
+      setErrors({
+        ...errors,
+        bodyFatPercentage: '',
+      });
     }
-    
-    if (!formData.skeletalMuscleMass || formData.skeletalMuscleMass <= 0) {
-      newErrors.skeletalMuscleMass = 'Требуется указать мышечную массу больше 0';
+  };
+
+  const handleMethodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setBodyFatMethod(e.target.value as BodyFatMethod);
+    setErrors({
+      ...errors,
+      bodyFatPercentage: '',
+    });
+  };
+
+  const handleRecognized = ({ values, confidence }: SheetFormValues) => {
+    setFormData({ ...formData, ...values });
+    setRecognizedConfidence(confidence);
+    const { weight, bodyFatPercentage, bodyFatMass } = values;
+    if (weight !== undefined && bodyFatPercentage !== undefined && bodyFatMass !== undefined) {
+      setMeasuredComposition({ weight, bodyFatPercentage, bodyFatMass, pbf: bodyFatPercentage });
     }
-    
-    // Range validations
-    if (formData.bodyFatPercentage && (formData.bodyFatPercentage < 0 || formData.bodyFatPercentage > 100)) {
-      newErrors.bodyFatPercentage = 'Процент жира должен быть от 0 до 100';
+    // A scanned sheet is a bioimpedance result
+    if (values.bodyFatPercentage !== undefined) {
+      setBodyFatMethod('bioimpedance');
     }
-    
-    if (formData.waterPercentage && (formData.waterPercentage < 0 || formData.waterPercentage > 100)) {
-      newErrors.waterPercentage = 'Процент воды должен быть от 0 до 100';
+    setErrors({});
+  };
+
+  const handleScaleDraft = ({ date, values }: ScaleDraft) => {
+    setFormData({ ...formData, ...values });
+    setMeasurementDate(toDateTimeInputValue(date));
+    setRecognizedConfidence({});
+    if (values.bodyFatPercentage !== undefined) {
+      setBodyFatMethod('bioimpedance');
     }
-    
+    setErrors({});
+  };
+
+  const recognitionClass = (field: FormField) => {
+    const confidence = recognizedConfidence[field];
+    return confidence === undefined ? '' : CONFIDENCE_STYLES[getConfidenceLevel(confidence)].input;
+  };
+
+  const renderRecognitionHint = (field: FormField) => {
+    const confidence = recognizedConfidence[field];
+    if (confidence === undefined || errors[field]) return null;
+
+    const level = getConfidenceLevel(confidence);
+    return (
+      <p className={`mt-1 text-sm ${CONFIDENCE_STYLES[level].hint}`}>
+        {level === 'high' ? 'Распознано' : 'Проверьте значение: распознано'} с уверенностью {confidence}%
+      </p>
+    );
+  };
+
+  const population = getReferencePopulation(user);
+  const methodInputs = BODY_FAT_METHODS[bodyFatMethod].inputs[population];
+
+  // Estimated body fat follows the inputs. The inputs themselves are not
+  // stored, so an edited estimate keeps its value until they are re-entered.
+  const estimatedBodyFat = bodyFatMethod === 'bioimpedance'
+    ? null
+    : estimateBodyFat(bodyFatMethod, estimationValues, {
+        height: user.height,
+        age: user.age,
+        bmi: formData.weight ? calculateBMI(formData.weight, user.height) : 0,
+        population,
+      }) ?? (bodyFatMethod === existingMeasurement?.bodyFatMethod ? existingMeasurement.bodyFatPercentage : null);
+
+  const bodyFatPercentage = bodyFatMethod === 'bioimpedance'
+    ? formData.bodyFatPercentage
+    : estimatedBodyFat ?? undefined;
+
+  const selectedDate = new Date(measurementDate);
+
+  // Another measurement on the same day is allowed, but usually a mistake
+  const hasSameDayMeasurement = !Number.isNaN(selectedDate.getTime()) && measurements.some(
+    (m) => m.id !== existingMeasurement?.id && isSameDay(m.date, selectedDate)
+  );
+
+  const validateForm = (): boolean => {
+    const newErrors = validateMeasurement({
+      ...formData,
+      bodyFatPercentage,
+      girths,
+      segmental,
+      date: selectedDate,
+    });
+    if (bodyFatMethod !== 'bioimpedance' && estimatedBodyFat === null) {
+      newErrors.bodyFatPercentage = 'Заполните измерения для выбранного метода';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -95,45 +247,92 @@ const DataEntry: React.FC = () => {
     
     // Calculate derived values
     const bmi = calculateBMI(formData.weight!, user.height);
-    const bodyFatMass = formData.weight! * (formData.bodyFatPercentage! / 100);
+    const isMeasuredComposition =
+      measuredComposition !== null &&
+      measuredComposition.weight === formData.weight &&
+      measuredComposition.bodyFatPercentage === bodyFatPercentage;
+    const bodyFatMass = isMeasuredComposition
+      ? measuredComposition.bodyFatMass
+      : formData.weight! * (bodyFatPercentage! / 100);
+    const pbf = isMeasuredComposition ? measuredComposition.pbf : bodyFatPercentage!;
     
-    // Create new measurement
-    const newMeasurement: Measurement = {
-      id: uuidv4(),
-      userId: user.id,
-      date: new Date(),
+    const measurement: Measurement = {
+      id: existingMeasurement?.id || uuidv4(),
+      userId: existingMeasurement?.userId || user.id,
+      date: selectedDate,
       weight: formData.weight!,
       bodyFatMass: bodyFatMass,
-      bodyFatPercentage: formData.bodyFatPercentage!,
+      bodyFatPercentage: bodyFatPercentage!,
       skeletalMuscleMass: formData.skeletalMuscleMass!,
       bmi: bmi,
-      pbf: formData.bodyFatPercentage!, // Same as bodyFatPercentage
-      visceralFat: formData.visceralFat || 0,
-      waterPercentage: formData.waterPercentage || 0,
-      basalMetabolicRate: formData.basalMetabolicRate || 0,
-      metabolicAge: formData.metabolicAge,
+      pbf,
+      visceralFat: optionalValue(formData.visceralFat),
+      waterPercentage: optionalValue(formData.waterPercentage),
+      basalMetabolicRate: optionalValue(formData.basalMetabolicRate),
+      metabolicAge: optionalValue(formData.metabolicAge),
+      bodyFatMethod,
+      girths: compactGirths(girths),
+      segmental: compactSegmental(segmental),
     };
     
+    if (existingMeasurement) {
+      updateMeasurement(measurement);
+      navigate('/reports');
+      return;
+    }
+
     // Add measurement to context
-    addMeasurement(newMeasurement);
+    addMeasurement(measurement);
     
     // Navigate to dashboard
     navigate('/');
   };
 
   const handleCancel = () => {
-    navigate('/');
+    navigate(isEditing ? '/reports' : '/');
   };
 
   return (
     <div className="animate-slide-up">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Новое измерение</h1>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {isEditing ? 'Редактирование измерения' : 'Новое измерение'}
+        </h1>
       </div>
       
       <div className="bg-white rounded-lg shadow-card p-6">
+        {!isEditing && (
+          <>
+            <ScaleConnect onConfirm={handleScaleDraft} />
+            <SheetScanImport onRecognized={handleRecognized} />
+          </>
+        )}
         <form onSubmit={handleSubmit}>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {/* Measurement Date */}
+            <div className="mb-4">
+              <label htmlFor="date" className="label">
+                Дата и время измерения *
+              </label>
+              <input
+                type="datetime-local"
+                id="date"
+                name="date"
+                value={measurementDate}
+                onChange={handleDateChange}
+                className={`input ${errors.date ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                max={toDateTimeInputValue(new Date())}
+                required
+              />
+              {errors.date && <p className="mt-1 text-sm text-error-500">{errors.date}</p>}
+              {!errors.date && hasSameDayMeasurement && (
+                <p className="mt-1 text-sm text-yellow-700 flex items-center">
+                  <AlertTriangle className="mr-1 h-4 w-4 text-warning-500" />
+                  В этот день уже есть измерение
+                </p>
+              )}
+            </div>
+
             {/* Weight */}
             <div className="mb-4">
               <label htmlFor="weight" className="label">
@@ -145,13 +344,54 @@ const DataEntry: React.FC = () => {
                 name="weight"
                 value={formData.weight || ''}
                 onChange={handleChange}
-                className={`input ${errors.weight ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                className={`input ${errors.weight ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : recognitionClass('weight')}`}
                 step="0.1"
                 required
               />
               {errors.weight && <p className="mt-1 text-sm text-error-500">{errors.weight}</p>}
+              {renderRecognitionHint('weight')}
+            </div>
+
+            {/* Body Fat Method */}
+            <div className="mb-4">
+              <label htmlFor="bodyFatMethod" className="label">
+                Способ определения жира
+              </label>
+              <select
+                id="bodyFatMethod"
+                name="bodyFatMethod"
+                value={bodyFatMethod}
+                onChange={handleMethodChange}
+                className="input"
+              >
+                {(Object.keys(BODY_FAT_METHODS) as BodyFatMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {BODY_FAT_METHODS[method].label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">{BODY_FAT_METHODS[bodyFatMethod].description}</p>
             </div>
 
+            {/* Inputs of the selected estimation method */}
+            {methodInputs.map((input) => (
+              <div className="mb-4" key={input}>
+                <label htmlFor={input} className="label">
+                  {ESTIMATION_INPUT_LABELS[input]} *
+                </label>
+                <input
+                  type="number"
+                  id={input}
+                  name={input}
+                  value={estimationValues[input] || ''}
+                  onChange={handleEstimationChange}
+                  className="input"
+                  step="0.1"
+                  min="0"
+                />
+              </div>
+            ))}
+
             {/* Body Fat Percentage */}
             <div className="mb-4">
               <label htmlFor="bodyFatPercentage" className="label">
@@ -161,15 +401,20 @@ const DataEntry: React.FC = () => {
                 type="number"
                 id="bodyFatPercentage"
                 name="bodyFatPercentage"
-                value={formData.bodyFatPercentage || ''}
+                value={bodyFatPercentage || ''}
                 onChange={handleChange}
-                className={`input ${errors.bodyFatPercentage ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                className={`input ${errors.bodyFatPercentage ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : recognitionClass('bodyFatPercentage')} ${bodyFatMethod !== 'bioimpedance' ? 'bg-gray-50' : ''}`}
                 step="0.1"
                 min="0"
                 max="100"
+                readOnly={bodyFatMethod !== 'bioimpedance'}
                 required
               />
               {errors.bodyFatPercentage && <p className="mt-1 text-sm text-error-500">{errors.bodyFatPercentage}</p>}
+              {bodyFatMethod === 'bioimpedance' && renderRecognitionHint('bodyFatPercentage')}
+              {!errors.bodyFatPercentage && bodyFatMethod !== 'bioimpedance' && (
+                <p className="mt-1 text-sm text-gray-500">Рассчитывается по формуле</p>
+              )}
             </div>
 
             {/* Skeletal Muscle Mass */}
@@ -183,11 +428,12 @@ const DataEntry: React.FC = () => {
                 name="skeletalMuscleMass"
                 value={formData.skeletalMuscleMass || ''}
                 onChange={handleChange}
-                className={`input ${errors.skeletalMuscleMass ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                className={`input ${errors.skeletalMuscleMass ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : recognitionClass('skeletalMuscleMass')}`}
                 step="0.1"
                 required
               />
               {errors.skeletalMuscleMass && <p className="mt-1 text-sm text-error-500">{errors.skeletalMuscleMass}</p>}
+              {renderRecognitionHint('skeletalMuscleMass')}
             </div>
 
             {/* Visceral Fat */}
@@ -201,11 +447,12 @@ const DataEntry: React.FC = () => {
                 name="visceralFat"
                 value={formData.visceralFat || ''}
                 onChange={handleChange}
-                className="input"
+                className={`input ${recognitionClass('visceralFat')}`}
                 step="1"
                 min="1"
                 max="30"
               />
+              {renderRecognitionHint('visceralFat')}
             </div>
 
             {/* Water Percentage */}
@@ -219,12 +466,13 @@ const DataEntry: React.FC = () => {
                 name="waterPercentage"
                 value={formData.waterPercentage || ''}
                 onChange={handleChange}
-                className={`input ${errors.waterPercentage ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                className={`input ${errors.waterPercentage ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : recognitionClass('waterPercentage')}`}
                 step="0.1"
                 min="0"
                 max="100"
               />
               {errors.waterPercentage && <p className="mt-1 text-sm text-error-500">{errors.waterPercentage}</p>}
+              {renderRecognitionHint('waterPercentage')}
             </div>
 
             {/* Basal Metabolic Rate */}
@@ -238,9 +486,10 @@ const DataEntry: React.FC = () => {
                 name="basalMetabolicRate"
                 value={formData.basalMetabolicRate || ''}
                 onChange={handleChange}
-                className="input"
+                className={`input ${recognitionClass('basalMetabolicRate')}`}
                 step="1"
               />
+              {renderRecognitionHint('basalMetabolicRate')}
             </div>
 
             {/* Metabolic Age */}
@@ -261,6 +510,14 @@ const DataEntry: React.FC = () => {
             </div>
           </div>
 
+          <BodyMeasurementsSection
+            girths={girths}
+            segmental={segmental}
+            errors={errors}
+            onGirthsChange={setGirths}
+            onSegmentalChange={setSegmental}
+          />
+
           {formSubmitted && Object.keys(errors).length > 0 && (
             <div className="mb-6 p-4 bg-error-50 border border-error-200 rounded-md">
               <p className="text-error-700 font-medium">Пожалуйста, исправьте ошибки перед отправкой.</p>
@@ -292,7 +549,7 @@ const DataEntry: React.FC = () => {
           Как использовать измерения InBody
         </h3>
         <p className="text-blue-700 mb-4">
-          Введите значения из отчета вашего сканирования InBody в форму выше. Обязательные поля отмечены звездочкой (*).
+          Введите значения из отчета вашего сканирования InBody в форму выше или загрузите фото бланка — распознанные значения будут подставлены в форму, их останется проверить. Обязательные поля отмечены звездочкой (*).
         </p>
         <ul className="list-disc pl-5 text-blue-700 space-y-2">
           <li>Вес - Ваш общий вес тела в килограммах</li>
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertTriangle, Plus, Target } from 'lucide-react';
+import { useUser } from '../context/UserContext';
+import { useMeasurements } from '../context/MeasurementContext';
+import { Goal } from '../types';
+import { ChartMetric, GOAL_METRIC_OPTIONS, getMetricOption } from '../utils/metrics';
+import { evaluateGoal, getCurrentValue } from '../utils/goals';
+import { startOfDay } from '../utils/dateRange';
+import { validateGoal } from '../utils/validation';
+import GoalProgressCard from '../components/GoalProgressCard';
+
+const Goals: React.FC = () => {
+  const { user, addGoal, deleteGoal } = useUser();
+  const { measurements } = useMeasurements();
+
+  const [metric, setMetric] = useState<ChartMetric>('bodyFatPercentage');
+  const [targetValue, setTargetValue] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  if (!user) return null;
+
+  if (measurements.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-6">
+          Чтобы поставить цель, сначала добавьте хотя бы одно измерение.
+        </p>
+        <Link to="/data-entry" className="btn-primary">
+          <Plus className="inline-block mr-2 h-5 w-5" />
+          Добавить измерение
+        </Link>
+      </div>
+    );
+  }
+
+  const currentValue = getCurrentValue(measurements, metric, user.height);
+  const unit = getMetricOption(metric)?.unit ?? '';
+
+  const buildGoal = (): Goal => ({
+    id: uuidv4(),
+    metric,
+    targetValue: targetValue === '' ? 0 : parseFloat(targetValue),
+    startValue: currentValue ?? 0,
+    createdAt: new Date(),
+    deadline: deadline ? startOfDay(deadline) : new Date(NaN),
+  });
+
+  // Preview of the required rate while the form is being filled in
+  const draft = buildGoal();
+  const draftWarning =
+    Object.keys(validateGoal(draft)).length === 0 && currentValue !== null
+      ? evaluateGoal(draft, measurements, user.height).warning
+      : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const goal = buildGoal();
+    const newErrors = validateGoal(goal);
+    if (currentValue === null) {
+      newErrors.metric = 'Для этого показателя ещё нет измерений';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    addGoal(goal);
+    setTargetValue('');
+    setDeadline('');
+  };
+
+  const goals = user.goals ?? [];
+
+  return (
+    <div className="animate-slide-up">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Цели</h1>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-card p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-800 mb-4 flex items-center">
+          <Target className="mr-2 h-5 w-5 text-primary-600" />
+          Новая цель
+        </h2>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="goal-metric" className="label">
+                Показатель
+              </label>
+              <select
+                id="goal-metric"
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as ChartMetric)}
+                className="input"
+              >
+                {GOAL_METRIC_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Сейчас: {currentValue !== null ? `${currentValue}${unit ? ` ${unit}` : ''}` : 'нет данных'}
+              </p>
+              {errors.metric && <p className="mt-1 text-sm text-error-500">{errors.metric}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="goal-target" className="label">
+                Целевое значение{unit && ` (${unit})`}
+              </label>
+              <input
+                type="number"
+                id="goal-target"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                className={`input ${errors.targetValue ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                step="0.1"
+                min="0"
+              />
+              {errors.targetValue && <p className="mt-1 text-sm text-error-500">{errors.targetValue}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="goal-deadline" className="label">
+                Срок
+              </label>
+              <input
+                type="date"
+                id="goal-deadline"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className={`input ${errors.deadline ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+              />
+              {errors.deadline && <p className="mt-1 text-sm text-error-500">{errors.deadline}</p>}
+            </div>
+          </div>
+
+          {draftWarning && (
+            <div className="mt-4 flex items-start rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>{draftWarning}</span>
+            </div>
+          )}
+
+          <button type="submit" className="btn-primary mt-6 inline-flex items-center">
+            <Plus className="mr-2 h-5 w-5" />
+            Добавить цель
+          </button>
+        </form>
+      </div>
+
+      {goals.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {goals.map((goal) => (
+            <GoalProgressCard
+              key={goal.id}
+              progress={evaluateGoal(goal, measurements, user.height)}
+              onDelete={deleteGoal}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-600">Целей пока нет.</p>
+      )}
+    </div>
+  );
+};
+
+export default Goals;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useUser } from '../context/UserContext';
+import { User } from '../types';
+import { validateUser } from '../utils/validation';
+import ReferencePopulationField from '../components/ReferencePopulationField';
+import BackupSettings from '../components/BackupSettings';
+import { v4 as uuidv4 } from 'uuid';
+import { Activity, ArrowRight, PlayCircle } from 'lucide-react';
+
+const Onboarding: React.FC = () => {
+  const { user, updateUser, setDemoMode } = useUser();
+
+  // An incomplete profile (e.g. just created from the profile switcher) is finished here
+  const [formData, setFormData] = useState<User>(
+    user || {
+      id: uuidv4(),
+      name: '',
+      age: 0,
+      gender: 'male',
+      height: 0,
+    }
+  );
+
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name, value, type } = e.target as HTMLInputElement;
+
+    setFormData({
+      ...formData,
+      [name]: type === 'number' ? (value === '' ? 0 : parseFloat(value)) : value,
+    });
+
+    // Clear error when field is modified
+    if (errors[name]) {
+      setErrors({
+        ...errors,
+        [name]: '',
+      });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors = validateUser(formData);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    updateUser({ ...formData, name: formData.name.trim() });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto animate-slide-up">
+      <div className="text-center mb-8">
+        <Activity className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-gray-900">
+          Добро пожаловать в систему анализа InBody
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Расскажите немного о себе, чтобы мы могли рассчитывать показатели и давать рекомендации.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-card p-6">
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Name */}
+            <div className="mb-4 md:col-span-2">
+              <label htmlFor="name" className="label">
+                Имя *
+              </label>
+              <input
+                type="text"
+                id="name"
+                name="name"
+                value={formData.name}
+                onChange={handleChange}
+                className={`input ${errors.name ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                required
+              />
+              {errors.name && <p className="mt-1 text-sm text-error-500">{errors.name}</p>}
+            </div>
+
+            {/* Age */}
+            <div className="mb-4">
+              <label htmlFor="age" className="label">
+                Возраст (лет) *
+              </label>
+              <input
+                type="number"
+                id="age"
+                name="age"
+                value={formData.age || ''}
+                onChange={handleChange}
+                className={`input ${errors.age ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                min="1"
+                required
+              />
+              {errors.age && <p className="mt-1 text-sm text-error-500">{errors.age}</p>}
+            </div>
+
+            {/* Gender */}
+            <div className="mb-4">
+              <label htmlFor="gender" className="label">
+                Пол *
+              </label>
+              <select
+                id="gender"
+                name="gender"
+                value={formData.gender}
+                onChange={handleChange}
+                className="input"
+                required
+              >
+                <option value="male">Мужской</option>
+                <option value="female">Женский</option>
+                <option value="other">Другой</option>
+              </select>
+            </div>
+
+            {formData.gender === 'other' && (
+              <ReferencePopulationField
+                value={formData.referencePopulation}
+                error={errors.referencePopulation}
+                onChange={handleChange}
+              />
+            )}
+
+            {/* Height */}
+            <div className="mb-4">
+              <label htmlFor="height" className="label">
+                Рост (см) *
+              </label>
+              <input
+                type="number"
+                id="height"
+                name="height"
+                value={formData.height || ''}
+                onChange={handleChange}
+                className={`input ${errors.height ? 'border-error-500 focus:border-error-500 focus:ring-error-500' : ''}`}
+                min="1"
+                step="0.1"
+                required
+              />
+              {errors.height && <p className="mt-1 text-sm text-error-500">{errors.height}</p>}
+            </div>
+          </div>
+
+          <div className="mt-8 flex justify-end">
+            <button type="submit" className="btn-primary flex items-center">
+              Начать
+              <ArrowRight className="ml-2 h-5 w-5" />
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="mt-8 bg-blue-50 rounded-lg p-6 border border-blue-100 text-center">
+        <p className="text-blue-700 mb-4">
+          Хотите сначала посмотреть, как всё работает? Демо-режим создаст пример профиля с тестовыми измерениями.
+        </p>
+        <button
+          type="button"
+          onClick={() => setDemoMode(true)}
+          className="btn-outline inline-flex items-center"
+        >
+          <PlayCircle className="mr-2 h-5 w-5" />
+          Открыть демо-режим
+        </button>
+      </div>
+
+      {/* Restoring a backup is the way to move data to a new device */}
+      <BackupSettings />
+    </div>
+  );
+};
+
+export default Onboarding;
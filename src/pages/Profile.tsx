@@ -1,14 +1,20 @@
 import React, { useState } from 'react';
 import { useUser } from '../context/UserContext';
 import { User } from '../types';
-import { Save, User as UserIcon } from 'lucide-react';
+import { validateUser } from '../utils/validation';
+import ReferencePopulationField from '../components/ReferencePopulationField';
+import { DEFAULT_NORMS_PRESET, NORMS_PRESETS, getNormsPreset } from '../utils/norms';
+import StorageSettings from '../components/StorageSettings';
+import BackupSettings from '../components/BackupSettings';
+import { v4 as uuidv4 } from 'uuid';
+import { PlayCircle, Save, User as UserIcon } from 'lucide-react';
 
 const Profile: React.FC = () => {
-  const { user, updateUser } = useUser();
+  const { user, updateUser, isDemoMode, setDemoMode } = useUser();
   
   const [formData, setFormData] = useState<User>(
     user || {
-      id: '1',
+      id: uuidv4(),
       name: '',
       age: 0,
       gender: 'male',
@@ -49,28 +55,8 @@ const Profile: React.FC = () => {
   };
 
   const validateForm = (): boolean => {
-    const newErrors: Record<string, string> = {};
-    
-    // Name validation
-    if (!formData.name.trim()) {
-      newErrors.name = 'Требуется указать имя';
-    }
-    
-    // Age validation
-    if (!formData.age || formData.age <= 0) {
-      newErrors.age = 'Возраст должен быть больше 0';
-    }
-    
-    // Height validation
-    if (!formData.height || formData.height <= 0) {
-      newErrors.height = 'Рост должен быть больше 0';
-    }
-    
-    // Email validation (optional field)
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Неверный формат email';
-    }
-    
+    const newErrors = validateUser(formData);
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -192,6 +178,14 @@ const Profile: React.FC = () => {
                 <option value="other">Другой</option>
               </select>
             </div>
+
+            {formData.gender === 'other' && (
+              <ReferencePopulationField
+                value={formData.referencePopulation}
+                error={errors.referencePopulation}
+                onChange={handleChange}
+              />
+            )}
             
             {/* Height */}
             <div className="mb-4">
@@ -211,6 +205,29 @@ const Profile: React.FC = () => {
               />
               {errors.height && <p className="mt-1 text-sm text-error-500">{errors.height}</p>}
             </div>
+
+            {/* Norms */}
+            <div className="mb-4">
+              <label htmlFor="normsPreset" className="label">
+                Нормы для оценки показателей
+              </label>
+              <select
+                id="normsPreset"
+                name="normsPreset"
+                value={formData.normsPreset || DEFAULT_NORMS_PRESET}
+                onChange={handleChange}
+                className="input"
+              >
+                {Object.values(NORMS_PRESETS).map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {getNormsPreset(formData.normsPreset).description}
+              </p>
+            </div>
           </div>
           
           <div className="mt-8 flex justify-end">
@@ -225,6 +242,34 @@ const Profile: React.FC = () => {
         </form>
       </div>
 
+      {/* Demo Mode */}
+      <div className="mt-8 bg-white rounded-lg shadow-card p-6">
+        <div className="flex items-start justify-between">
+          <div className="flex items-start">
+            <PlayCircle className="h-6 w-6 text-primary-600 flex-shrink-0" />
+            <div className="ml-3">
+              <h3 className="text-lg font-medium text-gray-800">Демо-режим</h3>
+              <p className="text-gray-600 text-sm mt-1">
+                Добавляет пример профиля с тестовыми измерениями. При выключении демо-профиль и его данные удаляются.
+              </p>
+            </div>
+          </div>
+          <label htmlFor="demoMode" className="flex items-center cursor-pointer ml-4">
+            <input
+              type="checkbox"
+              id="demoMode"
+              checked={isDemoMode}
+              onChange={(e) => setDemoMode(e.target.checked)}
+              className="h-5 w-5 text-primary-600 rounded border-gray-300 focus:ring-primary-500"
+            />
+          </label>
+        </div>
+      </div>
+
+      <StorageSettings />
+
+      <BackupSettings />
+
       {/* Health Information */}
       <div className="mt-8 bg-blue-50 rounded-lg p-6 border border-blue-100">
         <h3 className="text-lg font-medium text-blue-800 mb-2">
@@ -1,16 +1,62 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useMeasurements } from '../context/MeasurementContext';
 import { useUser } from '../context/UserContext';
 import MeasurementChart from '../components/MeasurementChart';
+import MultiMetricChart from '../components/MultiMetricChart';
+import DateRangePicker from '../components/DateRangePicker';
+import UndoToast from '../components/UndoToast';
+import BodyCompositionIndices from '../components/BodyCompositionIndices';
+import CompositionComparison from '../components/CompositionComparison';
 import { Measurement } from '../types';
 import { calculateIdealWeightRange } from '../utils/healthCalculations';
-import { FileText, Calendar, TrendingUp, ArrowRight } from 'lucide-react';
+import { exportMeasurementsToCSV, parseMeasurementsCSV } from '../utils/csv';
+import { FhirImportResult, buildFhirBundle, describePatientMismatch, parseFhirBundle } from '../utils/fhir';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { endOfDay, startOfDay, toDateInputValue } from '../utils/dateRange';
+import { ChartMetric, METRIC_OPTIONS } from '../utils/metrics';
+import { MAX_OVERLAY_METRICS } from '../utils/chartConfig';
+import { analyzeTrend, describeForecast, forecastAt, getForecastDate } from '../utils/trends';
+import { BODY_FAT_METHODS, getBodyFatMethod, isEstimatedMethod } from '../utils/bodyFatEstimation';
+import { formatRange, getNormsPreset, resolveNorms } from '../utils/norms';
+import { FileText, Calendar, TrendingUp, ArrowRight, Upload, Pencil, Trash2 } from 'lucide-react';
+
+// How long the "undo" option stays available after a deletion
+const UNDO_TIMEOUT_MS = 5000;
 
 const Reports: React.FC = () => {
-  const { measurements } = useMeasurements();
+  const {
+    measurements,
+    visibleMeasurements,
+    importMeasurements,
+    addMeasurement,
+    deleteMeasurement,
+  } = useMeasurements();
   const { user } = useUser();
-  const [selectedMetric, setSelectedMetric] = useState<keyof Measurement>('weight');
+  const [selectedMetrics, setSelectedMetrics] = useState<ChartMetric[]>(['weight']);
+  const [importResult, setImportResult] = useState<{ added: number; skipped: number; errors: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const fhirInputRef = useRef<HTMLInputElement>(null);
+  const [reportFrom, setReportFrom] = useState('');
+  const [reportTo, setReportTo] = useState('');
+  const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [pdfError, setPdfError] = useState('');
+  const [deletedMeasurement, setDeletedMeasurement] = useState<Measurement | null>(null);
+  const undoTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // Two measurements picked in the history table for the composition comparison
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    return () => clearTimeout(undoTimeoutRef.current);
+  }, []);
   
+  const handleUndoDelete = () => {
+    if (!deletedMeasurement) return;
+    addMeasurement(deletedMeasurement);
+    setDeletedMeasurement(null);
+    clearTimeout(undoTimeoutRef.current);
+  };
+
   if (!user || measurements.length === 0) {
     return (
       <div className="text-center py-12">
@@ -20,6 +66,9 @@ const Reports: React.FC = () => {
         <p className="text-gray-600 mb-6">
           Пожалуйста, добавьте измерения для просмотра отчетов.
         </p>
+        {deletedMeasurement && (
+          <UndoToast message="Измерение удалено" onUndo={handleUndoDelete} />
+        )}
       </div>
     );
   }
@@ -39,21 +88,144 @@ const Reports: React.FC = () => {
     });
   };
 
-  // Get ideal weight range based on user's height
-  const idealWeightRange = calculateIdealWeightRange(user.height);
+  // Norms and the ideal weight range follow the preset chosen in the profile
+  const normsPreset = getNormsPreset(user.normsPreset);
+  const { norms } = resolveNorms(user);
+  const { bmi: bmiNorms, bodyFatPercentage: bodyFatNorms } = norms;
+  const idealWeightRange = calculateIdealWeightRange(user.height, norms);
+
+  const handleDelete = (measurement: Measurement) => {
+    if (!window.confirm(`Удалить измерение от ${formatDate(measurement.date)}?`)) {
+      return;
+    }
 
-  // Available metrics for selection
-  const metricOptions = [
-    { value: 'weight', label: 'Вес (кг)', color: 'rgb(59, 130, 246)' },
-    { value: 'bodyFatPercentage', label: 'Жировая масса (%)', color: 'rgb(239, 68, 68)' },
-    { value: 'skeletalMuscleMass', label: 'Мышечная масса (кг)', color: 'rgb(34, 197, 94)' },
-    { value: 'bmi', label: 'ИМТ', color: 'rgb(168, 85, 247)' },
-    { value: 'visceralFat', label: 'Висцеральный жир', color: 'rgb(245, 158, 11)' },
-    { value: 'waterPercentage', label: 'Вода (%)', color: 'rgb(20, 184, 166)' },
-  ];
+    const deleted = deleteMeasurement(measurement.id);
+    if (!deleted) return;
+
+    setDeletedMeasurement(deleted);
+    clearTimeout(undoTimeoutRef.current);
+    undoTimeoutRef.current = setTimeout(() => setDeletedMeasurement(null), UNDO_TIMEOUT_MS);
+  };
 
-  // Find selected metric details
-  const selectedMetricDetails = metricOptions.find(option => option.value === selectedMetric);
+  // Picking a third measurement replaces the earliest pick
+  const toggleCompared = (id: string) => {
+    setComparedIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id].slice(-2)));
+  };
+
+  const compared = comparedIds
+    .map((id) => measurements.find((m) => m.id === id))
+    .filter((m): m is Measurement => m !== undefined);
+
+  const handleExportCSV = () => {
+    const csv = exportMeasurementsToCSV(measurements);
+    downloadFile(csv, `inbody-measurements-${toDateInputValue(new Date())}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleImportCSV = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await readFileAsText(file);
+    } catch {
+      setImportResult({ added: 0, skipped: 0, errors: ['Не удалось прочитать файл'] });
+      return;
+    }
+    const { measurements: parsed, errors } = parseMeasurementsCSV(text, user);
+    const added = importMeasurements(parsed);
+    setImportResult({
+      added,
+      skipped: parsed.length - added,
+      errors: errors.map((error) => `Строка ${error.row}: ${error.messages.join('; ')}`),
+    });
+  };
+
+  const handleExportFHIR = () => {
+    const bundle = buildFhirBundle(user, measurements);
+    downloadFile(
+      JSON.stringify(bundle, null, 2),
+      `inbody-fhir-${toDateInputValue(new Date())}.json`,
+      'application/fhir+json'
+    );
+  };
+
+  const handleImportFHIR = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await readFileAsText(file));
+    } catch (readError) {
+      const message = readError instanceof SyntaxError ? 'Файл не является корректным JSON' : 'Не удалось прочитать файл';
+      setImportResult({ added: 0, skipped: 0, errors: [message] });
+      return;
+    }
+    let result: FhirImportResult;
+    try {
+      result = parseFhirBundle(data, user);
+    } catch {
+      setImportResult({ added: 0, skipped: 0, errors: ['Не удалось разобрать FHIR Bundle'] });
+      return;
+    }
+    const { patient, measurements: parsed, errors } = result;
+
+    // Measurements of someone else must not end up in this profile unnoticed
+    const mismatches = describePatientMismatch(patient, user);
+    if (
+      mismatches.length > 0 &&
+      !window.confirm(
+        `Пациент в файле отличается от профиля «${user.name}»: ${mismatches.join(', ')}. Всё равно импортировать измерения в этот профиль?`
+      )
+    ) {
+      setImportResult({ added: 0, skipped: 0, errors: ['Импорт отменен: пациент в файле не совпадает с профилем'] });
+      return;
+    }
+
+    const added = importMeasurements(parsed);
+    setImportResult({ added, skipped: parsed.length - added, errors });
+  };
+
+  const handleGeneratePDF = async () => {
+    setIsGeneratingPDF(true);
+    setPdfError('');
+    try {
+      // jsPDF is large, so it is only loaded when a report is requested
+      const { generatePDFReport } = await import('../utils/pdfReport');
+      const doc = await generatePDFReport({
+        user,
+        measurements,
+        from: reportFrom ? startOfDay(reportFrom) : undefined,
+        to: reportTo ? endOfDay(reportTo) : undefined,
+      });
+      doc.save(`inbody-report-${toDateInputValue(new Date())}.pdf`);
+    } catch (error) {
+      setPdfError(error instanceof Error ? error.message : 'Не удалось создать PDF отчет');
+    } finally {
+      setIsGeneratingPDF(false);
+    }
+  };
+
+  // At least one metric stays selected
+  const toggleMetric = (metric: ChartMetric) => {
+    setSelectedMetrics((prev) =>
+      prev.includes(metric)
+        ? prev.length > 1 ? prev.filter((m) => m !== metric) : prev
+        : prev.length < MAX_OVERLAY_METRICS ? [...prev, metric] : prev
+    );
+  };
+
+  // The forecast is shown for a single metric only
+  const selectedMetric = selectedMetrics[0];
+  const selectedMetricDetails =
+    selectedMetrics.length === 1 ? METRIC_OPTIONS.find(option => option.value === selectedMetric) : undefined;
+
+  const trend = analyzeTrend(visibleMeasurements, selectedMetric, user.height);
+  const forecastDate = getForecastDate(trend.series);
+  const forecast = trend.regression && forecastDate ? forecastAt(trend.regression, forecastDate) : null;
 
   return (
     <div className="animate-slide-up">
@@ -72,17 +244,22 @@ const Reports: React.FC = () => {
           <TrendingUp className="mr-2 h-5 w-5 text-primary-600" />
           Выберите показатель для визуализации
         </h2>
-        
+        <p className="text-sm text-gray-500 -mt-2 mb-4">
+          Можно выбрать до {MAX_OVERLAY_METRICS} показателей — у каждого будет своя шкала
+        </p>
+
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
-          {metricOptions.map(option => (
+          {METRIC_OPTIONS.map(option => (
             <button
               key={option.value}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-all focus:outline-none ${
-                selectedMetric === option.value
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-all focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed ${
+                selectedMetrics.includes(option.value)
                   ? 'bg-primary-100 text-primary-800 border-2 border-primary-300'
                   : 'bg-gray-100 text-gray-700 hover:bg-gray-200 border-2 border-transparent'
               }`}
-              onClick={() => setSelectedMetric(option.value as keyof Measurement)}
+              onClick={() => toggleMetric(option.value)}
+              disabled={!selectedMetrics.includes(option.value) && selectedMetrics.length >= MAX_OVERLAY_METRICS}
+              aria-pressed={selectedMetrics.includes(option.value)}
             >
               {option.label}
             </button>
@@ -90,18 +267,31 @@ const Reports: React.FC = () => {
         </div>
       </div>
 
-      {/* Main Chart */}
+      {/* Main Chart; the period also applies to the history table */}
       <div className="mb-8">
-        {selectedMetricDetails && (
+        <DateRangePicker />
+        {selectedMetricDetails ? (
           <MeasurementChart
-            measurements={measurements}
+            measurements={visibleMeasurements}
             metric={selectedMetric}
             label={selectedMetricDetails.label}
             color={selectedMetricDetails.color}
+            showForecast
           />
+        ) : (
+          <MultiMetricChart measurements={visibleMeasurements} metrics={selectedMetrics} user={user} />
+        )}
+        {selectedMetricDetails && trend.regression && forecast && (
+          <p className="mt-3 text-sm text-gray-700 flex items-start">
+            <TrendingUp className="mr-2 h-4 w-4 flex-shrink-0 mt-0.5 text-primary-600" />
+            {describeForecast(selectedMetric, trend.regression, forecast)}
+          </p>
         )}
       </div>
 
+      {/* Indices for the latest measurement; the list is sorted oldest first */}
+      <BodyCompositionIndices measurement={measurements[measurements.length - 1]} user={user} />
+
       {/* Measurement History */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
         <div className="lg:col-span-2">
@@ -110,11 +300,17 @@ const Reports: React.FC = () => {
               <Calendar className="mr-2 h-5 w-5 text-primary-600" />
               История измерений
             </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Отметьте два измерения, чтобы увидеть, за счёт чего изменился вес.
+            </p>
             
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th scope="col" className="pl-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      <span className="sr-only">Сравнить</span>
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Дата
                     </th>
@@ -130,13 +326,25 @@ const Reports: React.FC = () => {
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       ИМТ
                     </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Действия
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {[...measurements]
-                    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                  {[...visibleMeasurements]
+                    .sort((a, b) => b.date.getTime() - a.date.getTime())
                     .map((measurement) => (
-                      <tr key={measurement.id}>
+                      <tr key={measurement.id} className={comparedIds.includes(measurement.id) ? 'bg-primary-50' : ''}>
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={comparedIds.includes(measurement.id)}
+                            onChange={() => toggleCompared(measurement.id)}
+                            className="h-4 w-4 text-primary-600 rounded border-gray-300"
+                            aria-label={`Сравнить измерение от ${formatDate(measurement.date)}`}
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {formatDate(measurement.date)}
                         </td>
@@ -145,6 +353,14 @@ const Reports: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {measurement.bodyFatPercentage}
+                          {isEstimatedMethod(getBodyFatMethod(measurement)) && (
+                            <span
+                              className="ml-1 text-xs text-gray-500"
+                              title={BODY_FAT_METHODS[getBodyFatMethod(measurement)].label}
+                            >
+                              {BODY_FAT_METHODS[getBodyFatMethod(measurement)].symbol} оценка
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {measurement.skeletalMuscleMass}
@@ -152,8 +368,31 @@ const Reports: React.FC = () => {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {measurement.bmi}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                          <Link
+                            to={`/data-entry/${measurement.id}`}
+                            className="inline-flex text-gray-500 hover:text-primary-600 mr-3"
+                            aria-label="Редактировать измерение"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Link>
+                          <button
+                            onClick={() => handleDelete(measurement)}
+                            className="inline-flex text-gray-500 hover:text-error-500"
+                            aria-label="Удалить измерение"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
                       </tr>
                     ))}
+                  {visibleMeasurements.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-4 text-sm text-gray-500 text-center">
+                        Нет измерений за выбранный период
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -179,26 +418,39 @@ const Reports: React.FC = () => {
                 <h3 className="font-medium text-gray-900">Классификация ИМТ</h3>
                 <p className="text-gray-700">
                   <span className="block mb-1">Категории ИМТ:</span>
-                  <span className="block text-sm">Менее 18.5: Недостаточный вес</span>
-                  <span className="block text-sm">18.5-24.9: Нормальный вес</span>
-                  <span className="block text-sm">25-29.9: Избыточный вес</span>
-                  <span className="block text-sm">30 и выше: Ожирение</span>
+                  <span className="block text-sm">Менее {bmiNorms.normal}: Недостаточный вес</span>
+                  <span className="block text-sm">{formatRange(bmiNorms.normal, bmiNorms.overweight)}: Нормальный вес</span>
+                  <span className="block text-sm">{formatRange(bmiNorms.overweight, bmiNorms.obese)}: Избыточный вес</span>
+                  <span className="block text-sm">{bmiNorms.obese} и выше: Ожирение</span>
                 </p>
               </div>
               
               <div className="border-l-4 border-accent-500 pl-4 py-2">
                 <h3 className="font-medium text-gray-900">Процент жира</h3>
                 <p className="text-gray-700">
-                  <span className="block mb-1">Здоровые диапазоны:</span>
-                  <span className="block text-sm">Мужчины: 8-19%</span>
-                  <span className="block text-sm">Женщины: 21-33%</span>
+                  <span className="block mb-1">Здоровые диапазоны для возраста {user.age} лет:</span>
+                  <span className="block text-sm">Мужчины: {formatRange(bodyFatNorms.male.normal, bodyFatNorms.male.high, '%')}</span>
+                  <span className="block text-sm">Женщины: {formatRange(bodyFatNorms.female.normal, bodyFatNorms.female.high, '%')}</span>
                 </p>
               </div>
+
+              <p className="text-sm text-gray-500">
+                Нормы: {normsPreset.name}. {normsPreset.description} Нормы воды (Tanita) и шкала висцерального
+                жира (InBody) одинаковы для всех возрастов.
+              </p>
             </div>
           </div>
         </div>
       </div>
 
+      {compared.length === 2 && (
+        <CompositionComparison
+          first={compared[0]}
+          second={compared[1]}
+          onClose={() => setComparedIds([])}
+        />
+      )}
+
       {/* Export Options */}
       <div className="bg-primary-50 rounded-lg p-6 border border-primary-100">
         <h3 className="flex items-center text-lg font-medium text-primary-800 mb-3">
@@ -208,17 +460,107 @@ const Reports: React.FC = () => {
         <p className="text-primary-700 mb-4">
           Скачайте историю измерений или создайте подробные отчеты о здоровье.
         </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4 max-w-md">
+          <div>
+            <label htmlFor="reportFrom" className="label">
+              Период отчета: с
+            </label>
+            <input
+              type="date"
+              id="reportFrom"
+              value={reportFrom}
+              max={reportTo || undefined}
+              onChange={(e) => setReportFrom(e.target.value)}
+              className="input"
+            />
+          </div>
+          <div>
+            <label htmlFor="reportTo" className="label">
+              по
+            </label>
+            <input
+              type="date"
+              id="reportTo"
+              value={reportTo}
+              min={reportFrom || undefined}
+              onChange={(e) => setReportTo(e.target.value)}
+              className="input"
+            />
+          </div>
+        </div>
         <div className="flex flex-wrap gap-4">
-          <button className="btn-primary flex items-center">
+          <button className="btn-primary flex items-center" onClick={handleExportCSV}>
             Экспорт в CSV
             <ArrowRight className="ml-2 h-4 w-4" />
           </button>
-          <button className="btn-outline flex items-center">
-            Создать PDF отчет
+          <button
+            className="btn-outline flex items-center"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Импорт из CSV
+            <Upload className="ml-2 h-4 w-4" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImportCSV}
+          />
+          <button className="btn-outline flex items-center" onClick={handleExportFHIR}>
+            Экспорт FHIR
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </button>
+          <button
+            className="btn-outline flex items-center"
+            onClick={() => fhirInputRef.current?.click()}
+          >
+            Импорт FHIR
+            <Upload className="ml-2 h-4 w-4" />
+          </button>
+          <input
+            ref={fhirInputRef}
+            type="file"
+            accept=".json,application/json,application/fhir+json"
+            className="hidden"
+            onChange={handleImportFHIR}
+          />
+          <Link to="/import" className="btn-outline flex items-center">
+            Импорт из LookinBody / XLSX
+            <Upload className="ml-2 h-4 w-4" />
+          </Link>
+          <button
+            className="btn-outline flex items-center"
+            onClick={handleGeneratePDF}
+            disabled={isGeneratingPDF}
+          >
+            {isGeneratingPDF ? 'Создание отчета...' : 'Создать PDF отчет'}
             <ArrowRight className="ml-2 h-4 w-4" />
           </button>
         </div>
+
+        {pdfError && <p className="mt-4 text-sm text-error-500">{pdfError}</p>}
+
+        {importResult && (
+          <div className="mt-4 p-4 bg-white border border-primary-100 rounded-md animate-fade-in">
+            <p className="text-gray-800 font-medium">
+              Импортировано измерений: {importResult.added}
+              {importResult.skipped > 0 && `, пропущено дубликатов: ${importResult.skipped}`}
+            </p>
+            {importResult.errors.length > 0 && (
+              <ul className="mt-2 text-sm text-error-500 space-y-1">
+                {importResult.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
+
+      {deletedMeasurement && (
+        <UndoToast message="Измерение удалено" onUndo={handleUndoDelete} />
+      )}
     </div>
   );
 };
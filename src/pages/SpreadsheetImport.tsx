@@ -0,0 +1,311 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, FileSpreadsheet, Upload } from 'lucide-react';
+import { useUser } from '../context/UserContext';
+import { useMeasurements } from '../context/MeasurementContext';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_KEYS,
+  ImportField,
+  ImportPreviewRow,
+  MassUnit,
+  SOURCE_FORMAT_LABELS,
+  SourceFormat,
+  SpreadsheetTable,
+  buildImportPreview,
+  detectMassUnit,
+  detectSourceFormat,
+  readSpreadsheet,
+  suggestMapping,
+} from '../utils/spreadsheetImport';
+
+type WizardStep = 'file' | 'mapping' | 'preview' | 'done';
+
+const STATUS_BADGES: Record<ImportPreviewRow['status'], { className: string; label: string }> = {
+  ready: { className: 'badge-green', label: 'Готово' },
+  duplicate: { className: 'badge-yellow', label: 'Дубликат' },
+  invalid: { className: 'badge-red', label: 'Ошибка' },
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('ru-RU', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Import wizard for measurement history exported by LookinBody, InBody
+// devices and gym software: choose a file, map its columns, review, import
+const SpreadsheetImport: React.FC = () => {
+  const { user } = useUser();
+  const { measurements, importMeasurements } = useMeasurements();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<SpreadsheetTable>({ headers: [], rows: [] });
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [unit, setUnit] = useState<MassUnit>('kg');
+  const [readError, setReadError] = useState('');
+  const [result, setResult] = useState<{ added: number; skipped: number } | null>(null);
+
+  if (!user) return null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setReadError('');
+    try {
+      const nextTable = await readSpreadsheet(file);
+      if (nextTable.rows.length === 0) {
+        setReadError('В файле нет строк с данными');
+        return;
+      }
+      const nextMapping = suggestMapping(nextTable.headers);
+      setFileName(file.name);
+      setTable(nextTable);
+      setSourceFormat(detectSourceFormat(nextTable.headers));
+      setMapping(nextMapping);
+      setUnit(detectMassUnit(nextTable.headers, nextMapping));
+      setStep('mapping');
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Не удалось прочитать файл');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const missingFields = IMPORT_FIELD_KEYS.filter(
+    (field) => IMPORT_FIELDS[field].required && mapping[field] === undefined
+  );
+
+  const preview = step === 'preview' ? buildImportPreview(table, mapping, { unit, user, existing: measurements }) : [];
+  const ready = preview.filter((row) => row.status === 'ready');
+  const duplicates = preview.filter((row) => row.status === 'duplicate').length;
+  const invalid = preview.filter((row) => row.status === 'invalid').length;
+
+  const handleImport = () => {
+    const toImport = ready.map((row) => row.measurement!);
+    const added = importMeasurements(toImport);
+    setResult({ added, skipped: preview.length - added });
+    setStep('done');
+  };
+
+  const reset = () => {
+    setStep('file');
+    setResult(null);
+    setTable({ headers: [], rows: [] });
+  };
+
+  const sampleValue = (column: number) => {
+    const cell = table.rows[0]?.[column];
+    if (cell === null || cell === undefined || cell === '') return '';
+    return ` — ${cell instanceof Date ? cell.toLocaleDateString('ru-RU') : cell}`;
+  };
+
+  return (
+    <div className="animate-slide-up">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Импорт истории измерений</h1>
+        <p className="text-gray-600 mt-1">
+          CSV или XLSX из LookinBody, программы InBody или вашего фитнес-клуба
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-card p-6">
+        {step === 'file' && (
+          <div className="text-center py-8">
+            <FileSpreadsheet className="mx-auto h-12 w-12 text-primary-600 mb-4" />
+            <p className="text-gray-600 mb-6">
+              Выберите файл экспорта. Столбцы будут сопоставлены автоматически, их можно будет поправить.
+            </p>
+            <button
+              type="button"
+              className="btn-primary inline-flex items-center"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="mr-2 h-5 w-5" />
+              Выбрать файл
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFile}
+            />
+            {readError && <p className="mt-4 text-sm text-error-500">{readError}</p>}
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div>
+            <div className="mb-6">
+              <h2 className="text-lg font-medium text-gray-800">Сопоставление столбцов</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {fileName}: {SOURCE_FORMAT_LABELS[sourceFormat]}, строк с данными: {table.rows.length}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+              {IMPORT_FIELD_KEYS.map((field) => (
+                <div key={field}>
+                  <label htmlFor={`map-${field}`} className="label">
+                    {IMPORT_FIELDS[field].label}
+                    {IMPORT_FIELDS[field].required && ' *'}
+                  </label>
+                  <select
+                    id={`map-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="input"
+                  >
+                    <option value="">— не импортировать —</option>
+                    {table.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Столбец ${index + 1}`}
+                        {sampleValue(index)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="mb-6 max-w-xs">
+              <label htmlFor="massUnit" className="label">
+                Единицы массы в файле
+              </label>
+              <select
+                id="massUnit"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as MassUnit)}
+                className="input"
+              >
+                <option value="kg">Килограммы</option>
+                <option value="lb">Фунты (будут переведены в кг)</option>
+              </select>
+              <p className="mt-1 text-sm text-gray-500">Вес, мышечная и жировая масса, общая вода</p>
+            </div>
+
+            {missingFields.length > 0 && (
+              <p className="mb-4 text-sm text-error-500">
+                Укажите столбцы: {missingFields.map((field) => IMPORT_FIELDS[field].label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              <button type="button" className="btn-outline flex items-center" onClick={reset}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Другой файл
+              </button>
+              <button
+                type="button"
+                className="btn-primary flex items-center"
+                onClick={() => setStep('preview')}
+                disabled={missingFields.length > 0}
+              >
+                Предпросмотр
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div>
+            <div className="mb-4">
+              <h2 className="text-lg font-medium text-gray-800">Предпросмотр</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Будет добавлено: {ready.length}. Пропущено дней, за которые уже есть измерение: {duplicates}. С ошибками: {invalid}.
+              </p>
+            </div>
+
+            <div className="overflow-x-auto mb-6 max-h-[28rem] overflow-y-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    {['Строка', 'Дата', 'Вес (кг)', 'Жир (%)', 'Мышцы (кг)', 'Статус'].map((title) => (
+                      <th
+                        key={title}
+                        scope="col"
+                        className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {title}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {preview.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-4 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {row.measurement ? formatDate(row.measurement.date) : '—'}
+                      </td>
+                      <td className="px-4 py-2">{row.measurement?.weight ?? '—'}</td>
+                      <td className="px-4 py-2">{row.measurement?.bodyFatPercentage ?? '—'}</td>
+                      <td className="px-4 py-2">{row.measurement?.skeletalMuscleMass ?? '—'}</td>
+                      <td className="px-4 py-2">
+                        <span className={STATUS_BADGES[row.status].className}>{STATUS_BADGES[row.status].label}</span>
+                        {row.errors.length > 0 && (
+                          <p className="mt-1 text-xs text-error-500">{row.errors.join('; ')}</p>
+                        )}
+                        {row.status === 'duplicate' && (
+                          <p className="mt-1 text-xs text-yellow-700">В этот день уже есть измерение</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end space-x-4">
+              <button type="button" className="btn-outline flex items-center" onClick={() => setStep('mapping')}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Назад
+              </button>
+              <button
+                type="button"
+                className="btn-primary flex items-center"
+                onClick={handleImport}
+                disabled={ready.length === 0}
+              >
+                Импортировать ({ready.length})
+                <Upload className="ml-2 h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="text-center py-8">
+            <p className="text-lg font-medium text-gray-800 mb-2">Импортировано измерений: {result.added}</p>
+            {result.skipped > 0 && (
+              <p className="text-gray-600 mb-6">Пропущено строк с ошибками или дубликатов: {result.skipped}</p>
+            )}
+            <div className="flex justify-center space-x-4">
+              <button type="button" className="btn-outline" onClick={reset}>
+                Импортировать ещё файл
+              </button>
+              <Link to="/reports" className="btn-primary">
+                К истории измерений
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetImport;
@@ -1,3 +1,5 @@
+import type { ChartMetric } from '../utils/metrics';
+
 export interface User {
   id: string;
   name: string;
@@ -5,8 +7,23 @@ export interface User {
   gender: 'male' | 'female' | 'other';
   height: number; // in cm
   email?: string;
+  normsPreset?: NormsPresetId; // defaults to WHO
+  // Which sex's reference ranges apply when gender is 'other'
+  referencePopulation?: ReferencePopulation;
+  goals?: Goal[];
+}
+
+export interface Goal {
+  id: string;
+  metric: ChartMetric;
+  targetValue: number;
+  startValue: number; // value of the latest measurement when the goal was set
+  createdAt: Date;
+  deadline: Date;
 }
 
+export type ReferencePopulation = 'male' | 'female';
+
 export interface Measurement {
   id: string;
   userId: string;
@@ -17,12 +34,46 @@ export interface Measurement {
   skeletalMuscleMass: number; // in kg
   bmi: number;
   pbf: number; // Percent Body Fat
-  visceralFat: number;
-  waterPercentage: number; // in %
-  basalMetabolicRate: number; // in kcal
+  // Optional values are missing when they were not measured
+  visceralFat?: number;
+  waterPercentage?: number; // in %
+  basalMetabolicRate?: number; // in kcal
   metabolicAge?: number;
+  bodyFatMethod?: BodyFatMethod; // how body fat was obtained, bioimpedance if missing
+  girths?: Girths;
+  segmental?: SegmentalAnalysis;
+}
+
+// Circumferences in cm, each one optional
+export interface Girths {
+  waist?: number;
+  hip?: number;
+  chest?: number;
+  arm?: number;
+  thigh?: number;
+}
+
+export type BodySegment = 'leftArm' | 'rightArm' | 'trunk' | 'leftLeg' | 'rightLeg';
+
+// Segmental lean and fat mass in kg, as printed by InBody
+export interface SegmentValues {
+  lean?: number;
+  fat?: number;
 }
 
+export type SegmentalAnalysis = Partial<Record<BodySegment, SegmentValues>>;
+
+export type BodyFatMethod =
+  | 'bioimpedance'
+  | 'navy'
+  | 'jacksonPollock3'
+  | 'jacksonPollock7'
+  | 'deurenberg';
+
+export type NormsPresetId = 'who' | 'asian' | 'inbody';
+
+// Each value is the lower bound of its category, so e.g. a BMI of at least
+// `bmi.normal` and below `bmi.overweight` is normal
 export interface MeasurementNorms {
   bodyFatPercentage: {
     male: {
@@ -36,6 +87,18 @@ export interface MeasurementNorms {
       high: number;
     };
   };
+  waterPercentage: {
+    male: {
+      low: number;
+      normal: number;
+      high: number;
+    };
+    female: {
+      low: number;
+      normal: number;
+      high: number;
+    };
+  };
   bmi: {
     underweight: number;
     normal: number;
@@ -67,5 +130,6 @@ export interface AnalysisResult {
   value: number;
   status: HealthStatus;
   normalRange: string;
+  referenceBand?: string; // the age and sex group the range was taken from
   recommendation: string;
 }
\ No newline at end of file
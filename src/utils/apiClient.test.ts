@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { User } from '../types';
+import { ApiError, createApiClient } from './apiClient';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Answers the requests in turn with the given responses or errors
+const stubFetch = (...answers: Array<Response | Error>) => {
+  const fetchMock = vi.fn(async () => {
+    const answer = answers.shift();
+    if (!answer || answer instanceof Error) throw answer ?? new TypeError('Failed to fetch');
+    return answer;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const client = createApiClient({ baseUrl: '/api', retries: 2, retryDelayMs: 0, timeoutMs: 20 });
+
+describe('createApiClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries network failures and server errors', async () => {
+    const fetchMock = stubFetch(new TypeError('Failed to fetch'), jsonResponse({}, 503), jsonResponse([user]));
+    expect(await client.getUsers()).toEqual([user]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const fetchMock = stubFetch(jsonResponse({}, 500), jsonResponse({}, 502), jsonResponse({}, 503));
+    await expect(client.getUsers()).rejects.toEqual(new ApiError('Ошибка сервера: 503', 503));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchMock = stubFetch(jsonResponse({ error: 'User not found' }, 404));
+    await expect(client.deleteUser(user.id)).rejects.toMatchObject({ status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a server that does not answer in time', async () => {
+    // Never settles unless the request is aborted
+    const fetchMock = vi.fn(
+      (_: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(client.getUsers()).rejects.toEqual(new ApiError('Сервер не ответил вовремя', 0));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips invalid records of a list', async () => {
+    stubFetch(jsonResponse([user, { id: 'broken' }]));
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    expect(await client.getUsers()).toEqual([user]);
+  });
+
+  it('rejects a response that is not a list', async () => {
+    stubFetch(jsonResponse({ users: [] }));
+    await expect(client.getUsers()).rejects.toBeInstanceOf(ApiError);
+  });
+});
@@ -0,0 +1,134 @@
+import { Measurement, User } from '../types';
+import { reviveAll, reviveMeasurement, reviveUser } from './storage';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number; // per attempt
+}
+
+export interface ApiClient {
+  getUsers(): Promise<User[]>;
+  saveUser(user: User): Promise<User>;
+  deleteUser(id: string): Promise<void>;
+  getMeasurements(userId: string): Promise<Measurement[]>;
+  saveMeasurement(measurement: Measurement): Promise<Measurement>;
+  deleteMeasurement(userId: string, id: string): Promise<void>;
+}
+
+// Only requests that can be repeated without changing the result are retried
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE'];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isTimeout = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const reviveOrThrow = <T>(raw: unknown, revive: (raw: unknown) => T | string): T => {
+  const result = revive(raw);
+  if (typeof result === 'string') {
+    throw new ApiError(`Некорректный ответ сервера: ${result}`, 0);
+  }
+  return result;
+};
+
+// Lists are checked as a whole, their records one by one
+const reviveList = <T>(path: string, raw: unknown, revive: (raw: unknown) => T | string): T[] => {
+  if (!Array.isArray(raw)) {
+    throw new ApiError('Некорректный ответ сервера: ожидался список', 0);
+  }
+  return reviveAll(`api:${path}`, raw, revive);
+};
+
+export const createApiClient = ({
+  baseUrl,
+  retries = 3,
+  retryDelayMs = 500,
+  timeoutMs = 10000,
+}: ApiClientOptions): ApiClient => {
+  // Network failures, timeouts and 5xx responses are retried with exponential
+  // backoff; 4xx responses are the caller's fault and fail immediately
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const attempts = IDEMPOTENT_METHODS.includes(init.method ?? 'GET') ? retries + 1 : 1;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await wait(retryDelayMs * 2 ** (attempt - 1));
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}${path}`, {
+          ...init,
+          headers: { 'Content-Type': 'application/json', ...init.headers },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        lastError = error;
+        continue;
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (response.ok) {
+        return (response.status === 204 ? undefined : await response.json()) as T;
+      }
+
+      lastError = new ApiError(`Ошибка сервера: ${response.status}`, response.status);
+      if (response.status < 500) break;
+    }
+
+    if (lastError instanceof ApiError) throw lastError;
+    throw isTimeout(lastError)
+      ? new ApiError('Сервер не ответил вовремя', 0)
+      : new ApiError('Сервер недоступен', 0);
+  };
+
+  const measurementsPath = (userId: string) =>
+    `/users/${encodeURIComponent(userId)}/measurements`;
+
+  return {
+    getUsers: async () => {
+      return reviveList('/users', await request<unknown>('/users'), reviveUser);
+    },
+    saveUser: async (user) =>
+      reviveOrThrow(
+        await request(`/users/${encodeURIComponent(user.id)}`, {
+          method: 'PUT',
+          body: JSON.stringify(user),
+        }),
+        reviveUser
+      ),
+    deleteUser: (id) =>
+      request<void>(`/users/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    getMeasurements: async (userId) => {
+      const path = measurementsPath(userId);
+      return reviveList(path, await request<unknown>(path), reviveMeasurement);
+    },
+    saveMeasurement: async (measurement) =>
+      reviveOrThrow(
+        await request(
+          `${measurementsPath(measurement.userId)}/${encodeURIComponent(measurement.id)}`,
+          { method: 'PUT', body: JSON.stringify(measurement) }
+        ),
+        reviveMeasurement
+      ),
+    deleteMeasurement: (userId, id) =>
+      request<void>(`${measurementsPath(userId)}/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      }),
+  };
+};
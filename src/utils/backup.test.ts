@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Measurement, User } from '../types';
+import {
+  BACKUP_VERSION,
+  BackupError,
+  applyBackup,
+  collectBackupData,
+  diffBackup,
+  readBackup,
+  serializeBackup,
+} from './backup';
+import { ACTIVE_USER_SETTING, createMemoryRepository } from './repository';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+const measurement = (id: string, date: string, weight: number): Measurement => ({
+  id,
+  userId: user.id,
+  date: new Date(date),
+  weight,
+  bodyFatMass: 17.3,
+  bodyFatPercentage: 26.9,
+  skeletalMuscleMass: 25.4,
+  bmi: 22.7,
+  pbf: 26.9,
+});
+
+const march = measurement('m-1', '2024-03-01T08:30:00.000Z', 64.2);
+const april = measurement('m-2', '2024-04-01T08:30:00.000Z', 63.8);
+const may = measurement('m-3', '2024-05-01T08:30:00.000Z', 63.1);
+
+const weightsOf = (measurements: Measurement[]) =>
+  measurements.map((m) => [m.id, m.weight]).sort(([a], [b]) => (a < b ? -1 : 1));
+
+const createRepository = async (measurements: Measurement[]) => {
+  const repository = createMemoryRepository();
+  await repository.saveUser(user);
+  await repository.saveMeasurements(measurements);
+  await repository.setSetting(ACTIVE_USER_SETTING, user.id);
+  return repository;
+};
+
+describe('readBackup', () => {
+  it('reads back the data it serialized', async () => {
+    const repository = await createRepository([march, april]);
+    const data = await collectBackupData(repository, [user]);
+
+    expect(await readBackup(await serializeBackup(data))).toEqual(data);
+  });
+
+  it('rejects a file changed after it was written', async () => {
+    const text = await serializeBackup(await collectBackupData(await createRepository([march]), [user]));
+    const tampered = text.replace('"weight": 64.2', '"weight": 46.2');
+
+    expect(tampered).not.toBe(text);
+    await expect(readBackup(tampered)).rejects.toThrow(BackupError);
+    await expect(readBackup(tampered)).rejects.toThrow('Контрольная сумма не совпадает');
+  });
+
+  it('rejects a file from a newer version of the app', async () => {
+    const text = await serializeBackup(await collectBackupData(await createRepository([march]), [user]));
+    const file = { ...JSON.parse(text), version: BACKUP_VERSION + 1 };
+
+    await expect(readBackup(JSON.stringify(file))).rejects.toThrow('более новой версией приложения');
+  });
+});
+
+describe('applyBackup', () => {
+  it('only adds new records when merging', async () => {
+    const backup = await collectBackupData(await createRepository([march, april]), [user]);
+    const repository = await createRepository([{ ...march, weight: 65 }, may]);
+    const current = await collectBackupData(repository, [user]);
+    const diff = diffBackup(backup, current);
+
+    expect(diff.measurements.added.map((m) => m.id)).toEqual(['m-2']);
+    expect(diff.measurements.conflicting.map((m) => m.id)).toEqual(['m-1']);
+    expect(diff.measurements.removed.map((m) => m.id)).toEqual(['m-3']);
+
+    await applyBackup(repository, backup, current, diff, 'merge');
+    // The stored version of a conflicting record is kept
+    expect(weightsOf(await repository.getMeasurements(user.id))).toEqual([
+      ['m-1', 65],
+      ['m-2', 63.8],
+      ['m-3', 63.1],
+    ]);
+  });
+
+  it('makes the stored data equal to the backup when replacing', async () => {
+    const other: User = { ...user, id: 'user-2', name: 'Борис', gender: 'male' };
+    const backup = await collectBackupData(await createRepository([march, april]), [user]);
+    const repository = await createRepository([{ ...march, weight: 65 }, may]);
+    await repository.saveUser(other);
+    await repository.saveMeasurements([{ ...may, id: 'm-4', userId: other.id }]);
+    const current = await collectBackupData(repository, [user, other]);
+
+    await applyBackup(repository, backup, current, diffBackup(backup, current), 'replace');
+    expect(await repository.getUsers()).toEqual([user]);
+    expect(await repository.getMeasurements(other.id)).toEqual([]);
+    expect(weightsOf(await repository.getMeasurements(user.id))).toEqual([
+      ['m-1', 64.2],
+      ['m-2', 63.8],
+    ]);
+  });
+});
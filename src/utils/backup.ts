@@ -0,0 +1,208 @@
+import { Measurement, User } from '../types';
+import { ACTIVE_USER_SETTING, Repository } from './repository';
+import { clearUnmeasuredZeros, reviveMeasurement, reviveUser } from './storage';
+
+// Lossless backup of everything the app stores: profiles with their goals,
+// the measurements of every profile and the repository settings.
+
+export const BACKUP_FORMAT = 'inbody-analysis-backup';
+// Bump when the shape of BackupData changes and read older files in readBackup
+export const BACKUP_VERSION = 2;
+
+// Settings that belong to the data; the storage mode is a property of the device
+const BACKUP_SETTINGS = [ACTIVE_USER_SETTING];
+
+export interface BackupData {
+  users: User[];
+  measurements: Measurement[];
+  settings: Record<string, unknown>;
+}
+
+interface BackupFile {
+  format: string;
+  version: number;
+  createdAt: string;
+  // SHA-256 of the serialized data
+  checksum: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// How the backup relates to the stored data. Conflicting records hold the
+// backup's version, removed ones the stored records the backup lacks.
+export interface RecordDiff<T> {
+  added: T[];
+  conflicting: T[];
+  unchanged: T[];
+  removed: T[];
+}
+
+export interface BackupDiff {
+  users: RecordDiff<User>;
+  measurements: RecordDiff<Measurement>;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Serialization with sorted keys, so records edited in a different order compare equal
+const canonical = (value: unknown) =>
+  JSON.stringify(value, (_, nested) =>
+    isRecord(nested) ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : 1))) : nested
+  );
+
+// Everything stored for the given profiles
+export const collectBackupData = async (repository: Repository, users: User[]): Promise<BackupData> => {
+  const measurements = await Promise.all(users.map((user) => repository.getMeasurements(user.id)));
+  const settings: Record<string, unknown> = {};
+  for (const key of BACKUP_SETTINGS) {
+    const value = await repository.getSetting(key);
+    if (value !== undefined) settings[key] = value;
+  }
+  return { users, measurements: measurements.flat(), settings };
+};
+
+export const serializeBackup = async (data: BackupData, now: Date = new Date()): Promise<string> => {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: now.toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Checks the envelope and the checksum, then validates every record the
+// same way as records read from storage
+export const readBackup = async (text: string): Promise<BackupData> => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError('Файл не является резервной копией: некорректный JSON');
+  }
+
+  if (!isRecord(file) || file.format !== BACKUP_FORMAT) {
+    throw new BackupError('Файл не является резервной копией InBody Analysis');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new BackupError(`Резервная копия создана более новой версией приложения (формат ${file.version})`);
+  }
+  if (!isRecord(file.data) || file.checksum !== (await sha256(JSON.stringify(file.data)))) {
+    throw new BackupError('Контрольная сумма не совпадает: файл поврежден или изменен');
+  }
+
+  const { users: rawUsers, measurements: rawMeasurements, settings } = file.data as Record<string, unknown>;
+  if (!Array.isArray(rawUsers) || !Array.isArray(rawMeasurements) || !isRecord(settings)) {
+    throw new BackupError('Неизвестная структура резервной копии');
+  }
+
+  const users = rawUsers.map((raw, index) => {
+    const result = reviveUser(raw);
+    if (typeof result === 'string') throw new BackupError(`Профиль ${index + 1}: ${result}`);
+    return result;
+  });
+  const userIds = new Set(users.map((user) => user.id));
+  const measurements = rawMeasurements.map((raw, index) => {
+    // Version 1 stored optional values that were not measured as 0
+    const result = reviveMeasurement(file.version === 1 ? clearUnmeasuredZeros(raw) : raw);
+    if (typeof result === 'string') throw new BackupError(`Измерение ${index + 1}: ${result}`);
+    if (!userIds.has(result.userId)) {
+      throw new BackupError(`Измерение ${index + 1}: принадлежит профилю, которого нет в копии`);
+    }
+    return result;
+  });
+
+  return { users, measurements, settings };
+};
+
+// Records are matched by id; measurements also by profile and time, like
+// on import
+export const diffBackup = (backup: BackupData, current: BackupData): BackupDiff => {
+  const currentUsers = new Map(current.users.map((user) => [user.id, user]));
+  const currentMeasurements = new Map(current.measurements.map((m) => [m.id, m]));
+  const measurementTimeKey = (m: Measurement) => `${m.userId}:${m.date.getTime()}`;
+  const currentTimes = new Set(current.measurements.map(measurementTimeKey));
+
+  const users: RecordDiff<User> = { added: [], conflicting: [], unchanged: [], removed: [] };
+  backup.users.forEach((user) => {
+    const existing = currentUsers.get(user.id);
+    if (!existing) users.added.push(user);
+    else if (canonical(existing) === canonical(user)) users.unchanged.push(user);
+    else users.conflicting.push(user);
+  });
+  const backupUserIds = new Set(backup.users.map((user) => user.id));
+  users.removed = current.users.filter((user) => !backupUserIds.has(user.id));
+
+  const measurements: RecordDiff<Measurement> = { added: [], conflicting: [], unchanged: [], removed: [] };
+  backup.measurements.forEach((measurement) => {
+    const existing = currentMeasurements.get(measurement.id);
+    if (existing) {
+      if (canonical(existing) === canonical(measurement)) measurements.unchanged.push(measurement);
+      else measurements.conflicting.push(measurement);
+    } else if (currentTimes.has(measurementTimeKey(measurement))) {
+      measurements.conflicting.push(measurement);
+    } else {
+      measurements.added.push(measurement);
+    }
+  });
+  const backupIds = new Set(backup.measurements.map((m) => m.id));
+  const backupTimes = new Set(backup.measurements.map(measurementTimeKey));
+  measurements.removed = current.measurements.filter(
+    (m) => !backupIds.has(m.id) && !backupTimes.has(measurementTimeKey(m))
+  );
+
+  return { users, measurements };
+};
+
+// "replace" makes the stored data equal to the backup; "merge" only adds
+// new records and keeps the stored version of conflicting ones
+export const applyBackup = async (
+  repository: Repository,
+  backup: BackupData,
+  current: BackupData,
+  diff: BackupDiff,
+  mode: RestoreMode
+) => {
+  if (mode === 'merge') {
+    for (const user of diff.users.added) {
+      await repository.saveUser(user);
+    }
+    await repository.saveMeasurements(diff.measurements.added);
+    return;
+  }
+
+  // Deleting a profile also deletes its measurements
+  const removedUserIds = new Set(diff.users.removed.map((user) => user.id));
+  for (const id of removedUserIds) {
+    await repository.deleteUser(id);
+  }
+  const backupIds = new Set(backup.measurements.map((m) => m.id));
+  for (const measurement of current.measurements) {
+    if (!removedUserIds.has(measurement.userId) && !backupIds.has(measurement.id)) {
+      await repository.deleteMeasurement(measurement);
+    }
+  }
+
+  for (const user of [...diff.users.added, ...diff.users.conflicting]) {
+    await repository.saveUser(user);
+  }
+  await repository.saveMeasurements([...diff.measurements.added, ...diff.measurements.conflicting]);
+  for (const [key, value] of Object.entries(backup.settings)) {
+    await repository.setSetting(key, value);
+  }
+};
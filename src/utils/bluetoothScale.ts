@@ -0,0 +1,100 @@
+import {
+  BODY_COMPOSITION_MEASUREMENT_CHARACTERISTIC,
+  BODY_COMPOSITION_SERVICE,
+  BodyCompositionMeasurement,
+  ScaleReading,
+  WEIGHT_MEASUREMENT_CHARACTERISTIC,
+  WEIGHT_SCALE_SERVICE,
+  mergeBodyComposition,
+  parseBodyCompositionMeasurement,
+  parseWeightMeasurement,
+} from './scaleGatt';
+
+export interface ScaleConnectionHandlers {
+  onReading: (reading: ScaleReading) => void;
+  onError: (error: Error) => void;
+  onDisconnect: () => void;
+}
+
+export interface ScaleConnection {
+  deviceName: string;
+  disconnect: () => void;
+}
+
+// Packets of one split body composition measurement arrive back to back
+const PACKET_GAP_MS = 2000;
+
+export const isBluetoothSupported = () => typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+
+// The user cancelling the device chooser is not an error
+export const isChooserCancelled = (error: unknown) =>
+  error instanceof DOMException && error.name === 'NotFoundError';
+
+// Pairs with a scale offering the standard Weight Scale and/or Body
+// Composition service and reports every completed reading
+export const connectScale = async ({
+  onReading,
+  onError,
+  onDisconnect,
+}: ScaleConnectionHandlers): Promise<ScaleConnection> => {
+  const device = await navigator.bluetooth.requestDevice({
+    filters: [{ services: [BODY_COMPOSITION_SERVICE] }, { services: [WEIGHT_SCALE_SERVICE] }],
+    optionalServices: [BODY_COMPOSITION_SERVICE, WEIGHT_SCALE_SERVICE],
+  });
+  if (!device.gatt) throw new Error('Устройство не поддерживает подключение');
+
+  const server = await device.gatt.connect();
+  device.addEventListener('gattserverdisconnected', onDisconnect);
+
+  let reading: ScaleReading = {};
+  let packets: BodyCompositionMeasurement[] = [];
+  let lastPacketAt = 0;
+
+  const subscribe = async (service: number, characteristicId: number, handle: (view: DataView) => void) => {
+    let characteristic: BluetoothRemoteGATTCharacteristic;
+    try {
+      characteristic = await (await server.getPrimaryService(service)).getCharacteristic(characteristicId);
+    } catch {
+      // Scales often offer only one of the two services
+      return false;
+    }
+    characteristic.addEventListener('characteristicvaluechanged', () => {
+      if (!characteristic.value) return;
+      try {
+        handle(characteristic.value);
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    await characteristic.startNotifications();
+    return true;
+  };
+
+  const subscribed = await Promise.all([
+    subscribe(WEIGHT_SCALE_SERVICE, WEIGHT_MEASUREMENT_CHARACTERISTIC, (view) => {
+      reading = { ...reading, weight: parseWeightMeasurement(view) };
+      onReading(reading);
+    }),
+    subscribe(BODY_COMPOSITION_SERVICE, BODY_COMPOSITION_MEASUREMENT_CHARACTERISTIC, (view) => {
+      const packet = parseBodyCompositionMeasurement(view);
+      const now = Date.now();
+      const continues = packet.multiplePacket && now - lastPacketAt < PACKET_GAP_MS;
+      packets = continues ? [...packets, packet] : [packet];
+      lastPacketAt = now;
+      reading = { ...reading, bodyComposition: mergeBodyComposition(packets) ?? undefined };
+      onReading(reading);
+    }),
+  ]);
+
+  const disconnect = () => {
+    device.removeEventListener('gattserverdisconnected', onDisconnect);
+    device.gatt?.disconnect();
+  };
+
+  if (!subscribed.some(Boolean)) {
+    disconnect();
+    throw new Error('Весы не поддерживают стандартные службы Bluetooth для взвешивания');
+  }
+
+  return { deviceName: device.name ?? 'Весы', disconnect };
+};
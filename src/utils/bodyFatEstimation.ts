@@ -0,0 +1,177 @@
+import { BodyFatMethod, Measurement, ReferencePopulation } from '../types';
+
+export type EstimationInput =
+  | 'neck'
+  | 'waist'
+  | 'hip'
+  | 'chest'
+  | 'abdomen'
+  | 'thigh'
+  | 'triceps'
+  | 'suprailiac'
+  | 'midaxillary'
+  | 'subscapular';
+
+export interface BodyFatMethodInfo {
+  label: string;
+  description: string;
+  // Measurements the method needs for each reference population
+  inputs: Record<ReferencePopulation, EstimationInput[]>;
+  // Marker used for the method's points on charts
+  pointStyle: 'circle' | 'triangle' | 'rect' | 'rectRot' | 'star';
+  symbol: string;
+}
+
+export const ESTIMATION_INPUT_LABELS: Record<EstimationInput, string> = {
+  neck: 'Обхват шеи (см)',
+  waist: 'Обхват талии (см)',
+  hip: 'Обхват бёдер (см)',
+  chest: 'Складка на груди (мм)',
+  abdomen: 'Складка на животе (мм)',
+  thigh: 'Складка на бедре (мм)',
+  triceps: 'Складка на трицепсе (мм)',
+  suprailiac: 'Надподвздошная складка (мм)',
+  midaxillary: 'Средне-подмышечная складка (мм)',
+  subscapular: 'Подлопаточная складка (мм)',
+};
+
+const SEVEN_SITES: EstimationInput[] = [
+  'chest',
+  'midaxillary',
+  'triceps',
+  'subscapular',
+  'abdomen',
+  'suprailiac',
+  'thigh',
+];
+
+export const BODY_FAT_METHODS: Record<BodyFatMethod, BodyFatMethodInfo> = {
+  bioimpedance: {
+    label: 'Биоимпеданс (InBody)',
+    description: 'Значение из отчёта анализатора состава тела.',
+    inputs: { male: [], female: [] },
+    pointStyle: 'circle',
+    symbol: '●',
+  },
+  navy: {
+    label: 'Формула ВМС США',
+    description: 'Оценка по обхватам шеи, талии и (для женщин) бёдер, измеренным сантиметровой лентой.',
+    inputs: { male: ['neck', 'waist'], female: ['neck', 'waist', 'hip'] },
+    pointStyle: 'triangle',
+    symbol: '▲',
+  },
+  jacksonPollock3: {
+    label: 'Джексон-Поллок, 3 складки',
+    description: 'Оценка по сумме трёх кожно-жировых складок, измеренных калипером.',
+    inputs: { male: ['chest', 'abdomen', 'thigh'], female: ['triceps', 'suprailiac', 'thigh'] },
+    pointStyle: 'rect',
+    symbol: '■',
+  },
+  jacksonPollock7: {
+    label: 'Джексон-Поллок, 7 складок',
+    description: 'Оценка по сумме семи кожно-жировых складок, измеренных калипером.',
+    inputs: { male: SEVEN_SITES, female: SEVEN_SITES },
+    pointStyle: 'rectRot',
+    symbol: '◆',
+  },
+  deurenberg: {
+    label: 'Формула Дойренберга',
+    description: 'Грубая оценка по ИМТ, возрасту и полу, когда других измерений нет.',
+    inputs: { male: [], female: [] },
+    pointStyle: 'star',
+    symbol: '✱',
+  },
+};
+
+export const isBodyFatMethod = (value: unknown): value is BodyFatMethod =>
+  typeof value === 'string' && value in BODY_FAT_METHODS;
+
+export const getBodyFatMethod = (measurement: Measurement): BodyFatMethod =>
+  measurement.bodyFatMethod ?? 'bioimpedance';
+
+export const isEstimatedMethod = (method: BodyFatMethod): boolean => method !== 'bioimpedance';
+
+export interface EstimationSubject {
+  height: number; // in cm
+  age: number;
+  bmi: number;
+  population: ReferencePopulation;
+}
+
+// Siri equation: body density to body fat percentage
+const siri = (bodyDensity: number) => 495 / bodyDensity - 450;
+
+const sum = (values: Partial<Record<EstimationInput, number>>, keys: EstimationInput[]) =>
+  keys.reduce((total, key) => total + (values[key] ?? 0), 0);
+
+const estimateNavy = (
+  values: Partial<Record<EstimationInput, number>>,
+  { height, population }: EstimationSubject
+) => {
+  const neck = values.neck ?? 0;
+  const waist = values.waist ?? 0;
+  if (population === 'male') {
+    return 495 / (1.0324 - 0.19077 * Math.log10(waist - neck) + 0.15456 * Math.log10(height)) - 450;
+  }
+  const hip = values.hip ?? 0;
+  return 495 / (1.29579 - 0.35004 * Math.log10(waist + hip - neck) + 0.221 * Math.log10(height)) - 450;
+};
+
+const estimateJacksonPollock3 = (
+  values: Partial<Record<EstimationInput, number>>,
+  { age, population }: EstimationSubject
+) => {
+  const total = sum(values, BODY_FAT_METHODS.jacksonPollock3.inputs[population]);
+  const density =
+    population === 'male'
+      ? 1.10938 - 0.0008267 * total + 0.0000016 * total * total - 0.0002574 * age
+      : 1.0994921 - 0.0009929 * total + 0.0000023 * total * total - 0.0001392 * age;
+  return siri(density);
+};
+
+const estimateJacksonPollock7 = (
+  values: Partial<Record<EstimationInput, number>>,
+  { age, population }: EstimationSubject
+) => {
+  const total = sum(values, SEVEN_SITES);
+  const density =
+    population === 'male'
+      ? 1.112 - 0.00043499 * total + 0.00000055 * total * total - 0.00028826 * age
+      : 1.097 - 0.00046971 * total + 0.00000056 * total * total - 0.00012828 * age;
+  return siri(density);
+};
+
+// Deurenberg et al., 1991
+const estimateDeurenberg = ({ age, bmi, population }: EstimationSubject) =>
+  1.2 * bmi + 0.23 * age - 10.8 * (population === 'male' ? 1 : 0) - 5.4;
+
+// Returns the estimated body fat percentage, or null when the inputs are
+// incomplete or give an impossible result
+export const estimateBodyFat = (
+  method: Exclude<BodyFatMethod, 'bioimpedance'>,
+  values: Partial<Record<EstimationInput, number>>,
+  subject: EstimationSubject
+): number | null => {
+  const required = BODY_FAT_METHODS[method].inputs[subject.population];
+  if (required.some((key) => !values[key] || values[key]! <= 0)) return null;
+  if (method === 'deurenberg' && subject.bmi <= 0) return null;
+
+  let estimate: number;
+  switch (method) {
+    case 'navy':
+      estimate = estimateNavy(values, subject);
+      break;
+    case 'jacksonPollock3':
+      estimate = estimateJacksonPollock3(values, subject);
+      break;
+    case 'jacksonPollock7':
+      estimate = estimateJacksonPollock7(values, subject);
+      break;
+    case 'deurenberg':
+      estimate = estimateDeurenberg(subject);
+      break;
+  }
+
+  if (!Number.isFinite(estimate) || estimate <= 0 || estimate >= 100) return null;
+  return parseFloat(estimate.toFixed(1));
+};
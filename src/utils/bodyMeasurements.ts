@@ -0,0 +1,95 @@
+import { BodySegment, Girths, Measurement, SegmentalAnalysis, SegmentValues } from '../types';
+
+export const GIRTH_FIELDS: Array<keyof Girths> = ['waist', 'hip', 'chest', 'arm', 'thigh'];
+
+export const GIRTH_LABELS: Record<keyof Girths, string> = {
+  waist: 'Талия',
+  hip: 'Бёдра',
+  chest: 'Грудь',
+  arm: 'Плечо',
+  thigh: 'Бедро',
+};
+
+export const BODY_SEGMENTS: BodySegment[] = ['leftArm', 'rightArm', 'trunk', 'leftLeg', 'rightLeg'];
+
+export const SEGMENT_LABELS: Record<BodySegment, string> = {
+  leftArm: 'Левая рука',
+  rightArm: 'Правая рука',
+  trunk: 'Туловище',
+  leftLeg: 'Левая нога',
+  rightLeg: 'Правая нога',
+};
+
+export const SEGMENT_VALUE_FIELDS: Array<keyof SegmentValues> = ['lean', 'fat'];
+
+// Ratios are only available when both circumferences were measured
+export const calculateWaistToHipRatio = (girths?: Girths): number | null =>
+  girths?.waist && girths.hip ? parseFloat((girths.waist / girths.hip).toFixed(2)) : null;
+
+export const calculateWaistToHeightRatio = (girths: Girths | undefined, height: number): number | null =>
+  girths?.waist && height > 0 ? parseFloat((girths.waist / height).toFixed(2)) : null;
+
+// Left/right differences in lean mass, in % of the larger side. InBody
+// reports differences up to 5% as balanced; above 10% is a clear imbalance.
+export const IMBALANCE_THRESHOLDS = { mild: 5, significant: 10 };
+
+export type ImbalanceLevel = 'balanced' | 'mild' | 'significant';
+
+export interface LimbImbalance {
+  limb: 'arms' | 'legs';
+  difference: number; // in %
+  level: ImbalanceLevel;
+  weakerSide: BodySegment | null;
+}
+
+const compareSides = (
+  limb: LimbImbalance['limb'],
+  left: BodySegment,
+  right: BodySegment,
+  segmental: SegmentalAnalysis
+): LimbImbalance | null => {
+  const leftLean = segmental[left]?.lean;
+  const rightLean = segmental[right]?.lean;
+  if (!leftLean || !rightLean) return null;
+
+  const difference = parseFloat(
+    ((Math.abs(leftLean - rightLean) / Math.max(leftLean, rightLean)) * 100).toFixed(1)
+  );
+  let level: ImbalanceLevel = 'balanced';
+  if (difference > IMBALANCE_THRESHOLDS.significant) level = 'significant';
+  else if (difference > IMBALANCE_THRESHOLDS.mild) level = 'mild';
+
+  return {
+    limb,
+    difference,
+    level,
+    weakerSide: level === 'balanced' ? null : leftLean < rightLean ? left : right,
+  };
+};
+
+export const calculateLimbImbalances = (segmental: SegmentalAnalysis): LimbImbalance[] =>
+  [
+    compareSides('arms', 'leftArm', 'rightArm', segmental),
+    compareSides('legs', 'leftLeg', 'rightLeg', segmental),
+  ].filter((imbalance): imbalance is LimbImbalance => imbalance !== null);
+
+export const hasSegmentalData = (measurement: Measurement): boolean =>
+  BODY_SEGMENTS.some((segment) =>
+    SEGMENT_VALUE_FIELDS.some((field) => measurement.segmental?.[segment]?.[field] !== undefined)
+  );
+
+// Drops empty values so measurements without girths or segmental data
+// do not store empty objects
+const compactValues = <T extends object>(values: T): T | undefined => {
+  const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+};
+
+export const compactGirths = (girths: Girths): Girths | undefined => compactValues(girths);
+
+export const compactSegmental = (segmental: SegmentalAnalysis): SegmentalAnalysis | undefined => {
+  const entries = Object.entries(segmental)
+    .map(([segment, values]) => [segment, compactValues(values ?? {})] as const)
+    .filter(([, values]) => values !== undefined);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
@@ -0,0 +1,332 @@
+import { ChartData, ChartOptions } from 'chart.js';
+import 'chartjs-adapter-date-fns';
+import { ru } from 'date-fns/locale';
+// Typings for the zoom plugin options; the plugin itself is registered by the chart component
+import type {} from 'chartjs-plugin-zoom';
+import { Goal, Measurement, User } from '../types';
+import { sortByDate } from './dateRange';
+import { ChartMetric, getMetricOption, getMetricValue, isBodyFatMetric } from './metrics';
+import { BODY_FAT_METHODS, getBodyFatMethod, isEstimatedMethod } from './bodyFatEstimation';
+import { getGoalsForMetric } from './goals';
+import { NormalRange, STATUS_COLORS, getMetricStatus, getNormalRange } from './metricStatus';
+import {
+  FORECAST_WEEKS,
+  ROLLING_WINDOW_DAYS,
+  analyzeTrend,
+  forecastAt,
+  getForecastDate,
+} from './trends';
+
+export interface ChartDataOptions {
+  goals?: Goal[];
+  showForecast?: boolean;
+  // Draws the user's normal range and colours points by their health status
+  user?: User;
+}
+
+// More axes than this do not fit next to the plot
+export const MAX_OVERLAY_METRICS = 3;
+
+type LineDataset = ChartData<'line'>['datasets'][number];
+
+const OUTLIER_COLOR = 'rgb(239, 68, 68)';
+
+// Lower edges of shaded bands are only drawn to fill against; datasets with
+// this suffix are left out of the legend and tooltips
+const BOUND_SUFFIX = ' (граница)';
+
+// 'rgb(r, g, b)' to 'rgba(r, g, b, alpha)'
+const withAlpha = (color: string, alpha: number) =>
+  color.replace('rgb(', 'rgba(').replace(')', `, ${alpha})`);
+
+const getAxisId = (metric: ChartMetric) => `y-${metric}`;
+
+// A normal range as a shaded band across the given time span. Open ranges
+// are filled to the edge of the chart.
+const buildNormalBand = (
+  range: NormalRange,
+  label: string,
+  color: string,
+  from: number,
+  to: number,
+  yAxisID?: string
+): LineDataset[] => {
+  const line = (value: number) => [
+    { x: from, y: value },
+    { x: to, y: value },
+  ];
+  const band = {
+    label: `Норма: ${label}`,
+    borderColor: 'transparent',
+    backgroundColor: withAlpha(color, 0.08),
+    pointRadius: 0,
+    yAxisID,
+  };
+
+  if (range.min !== undefined && range.max !== undefined) {
+    return [
+      { ...band, label: `${band.label}${BOUND_SUFFIX}`, data: line(range.min), fill: false },
+      { ...band, data: line(range.max), fill: '-1' },
+    ];
+  }
+  if (range.min !== undefined) return [{ ...band, data: line(range.min), fill: 'end' }];
+  if (range.max !== undefined) return [{ ...band, data: line(range.max), fill: 'start' }];
+  return [];
+};
+
+// Values of one metric as time points, with point colours by health status
+// when a user is given
+const buildMetricDataset = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  label: string,
+  color: string,
+  height: number,
+  outlierIds: Set<string>,
+  user?: User
+): LineDataset => {
+  const getStatusColor = (m: Measurement) => {
+    const status = user ? getMetricStatus(m, metric, user) : null;
+    return status ? STATUS_COLORS[status] : color;
+  };
+  const showMethod = isBodyFatMetric(metric);
+
+  return {
+    label,
+    data: measurements.map((m) => {
+      const value = getMetricValue(m, metric, height);
+      return value === null ? null : { x: m.date.getTime(), y: value };
+    }),
+    borderColor: color,
+    backgroundColor: withAlpha(color, 0.2),
+    tension: 0.3,
+    fill: false,
+    // On body fat charts, points with estimated body fat get their method's marker
+    pointStyle: measurements.map((m) =>
+      showMethod ? BODY_FAT_METHODS[getBodyFatMethod(m)].pointStyle : 'circle'
+    ),
+    pointRadius: measurements.map((m) => (showMethod && isEstimatedMethod(getBodyFatMethod(m)) ? 6 : 3)),
+    pointBackgroundColor: measurements.map((m) =>
+      !user && outlierIds.has(m.id) ? OUTLIER_COLOR : getStatusColor(m)
+    ),
+    // With status colours the outliers keep a red outline instead
+    pointBorderColor: measurements.map((m) => (outlierIds.has(m.id) ? OUTLIER_COLOR : getStatusColor(m))),
+    pointBorderWidth: measurements.map((m) => (user && outlierIds.has(m.id) ? 3 : 1)),
+  };
+};
+
+export const buildChartData = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  label: string,
+  color: string,
+  height: number,
+  { goals = [], showForecast = false, user }: ChartDataOptions = {}
+): ChartData<'line'> => {
+  // Sort measurements by date (oldest to newest)
+  const sortedMeasurements = sortByDate(measurements);
+  const firstTime = sortedMeasurements[0]?.date.getTime();
+  const lastTime = sortedMeasurements[sortedMeasurements.length - 1]?.date.getTime();
+
+  const trend = analyzeTrend(sortedMeasurements, metric, height);
+  const outlierIds = new Set(trend.outliers.map((outlier) => outlier.measurementId));
+  const averages = new Map(
+    trend.series.map((point, index) => [point.measurementId, trend.rollingAverage[index]])
+  );
+
+  // The forecast continues from the last measurement, with the prediction
+  // interval drawn as a band around the dashed line
+  const forecastDate = getForecastDate(trend.series);
+  const forecast =
+    showForecast && trend.regression && forecastDate ? forecastAt(trend.regression, forecastDate) : null;
+  const forecastDatasets: LineDataset[] = [];
+  if (forecast) {
+    const last = trend.series[trend.series.length - 1];
+    const forecastTime = forecast.date.getTime();
+    const fromLast = (value: number) => [
+      { x: last.time, y: last.value },
+      { x: forecastTime, y: value },
+    ];
+    forecastDatasets.push(
+      {
+        label: `Прогноз на ${FORECAST_WEEKS} нед.`,
+        data: fromLast(forecast.value),
+        borderColor: color,
+        borderDash: [4, 4],
+        pointRadius: [0, 4],
+        fill: false,
+      },
+      {
+        label: `Интервал прогноза${BOUND_SUFFIX}`,
+        data: fromLast(forecast.lower),
+        borderColor: 'transparent',
+        pointRadius: 0,
+        fill: false,
+      },
+      {
+        label: 'Интервал прогноза (95%)',
+        data: fromLast(forecast.upper),
+        borderColor: 'transparent',
+        backgroundColor: withAlpha(color, 0.15),
+        pointRadius: 0,
+        fill: '-1',
+      }
+    );
+  }
+  const endTime = forecast ? forecast.date.getTime() : lastTime;
+
+  // Each goal for the metric is drawn as a dashed horizontal line across the
+  // measured period, up to the deadline if that is later
+  const targetLines =
+    endTime === undefined
+      ? []
+      : getGoalsForMetric(goals, metric).map((goal) => ({
+          label: `Цель: ${goal.targetValue} к ${goal.deadline.toLocaleDateString('ru-RU')}`,
+          data: [
+            { x: firstTime, y: goal.targetValue },
+            { x: Math.max(endTime, goal.deadline.getTime()), y: goal.targetValue },
+          ],
+          borderColor: color,
+          borderDash: [6, 6],
+          borderWidth: 1.5,
+          pointRadius: 0,
+          fill: false,
+        }));
+
+  const range = user ? getNormalRange(metric, user) : null;
+  const normalBand =
+    range && endTime !== undefined ? buildNormalBand(range, label, STATUS_COLORS.normal, firstTime, endTime) : [];
+
+  return {
+    datasets: [
+      buildMetricDataset(sortedMeasurements, metric, label, color, height, outlierIds, user),
+      {
+        label: `Скользящее среднее (${ROLLING_WINDOW_DAYS} дн.)`,
+        data: sortedMeasurements.map((m) => {
+          const average = averages.get(m.id);
+          return average === undefined ? null : { x: m.date.getTime(), y: parseFloat(average.toFixed(2)) };
+        }),
+        borderColor: withAlpha(color, 0.5),
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.3,
+        fill: false,
+      },
+      ...normalBand,
+      ...forecastDatasets,
+      ...targetLines,
+    ],
+  };
+};
+
+// Several metrics on one time axis, each on its own Y axis with its normal range
+export const buildOverlayChartData = (
+  measurements: Measurement[],
+  metrics: ChartMetric[],
+  user: User
+): ChartData<'line'> => {
+  const sortedMeasurements = sortByDate(measurements);
+  const firstTime = sortedMeasurements[0]?.date.getTime();
+  const lastTime = sortedMeasurements[sortedMeasurements.length - 1]?.date.getTime();
+
+  return {
+    datasets: metrics.flatMap((metric) => {
+      const option = getMetricOption(metric);
+      const label = option?.label ?? metric;
+      const color = option?.color ?? 'rgb(59, 130, 246)';
+      const yAxisID = getAxisId(metric);
+      const { outliers } = analyzeTrend(sortedMeasurements, metric, user.height);
+      const outlierIds = new Set(outliers.map((outlier) => outlier.measurementId));
+      const range = getNormalRange(metric, user);
+
+      return [
+        {
+          ...buildMetricDataset(sortedMeasurements, metric, label, color, user.height, outlierIds, user),
+          yAxisID,
+        },
+        ...(range && lastTime !== undefined
+          ? buildNormalBand(range, label, color, firstTime, lastTime, yAxisID)
+          : []),
+      ];
+    }),
+  };
+};
+
+const isBound = (label?: string) => label?.endsWith(BOUND_SUFFIX) ?? false;
+
+// Spacing follows the actual dates of the measurements
+const timeScale: NonNullable<ChartOptions<'line'>['scales']>[string] = {
+  type: 'time',
+  adapters: {
+    date: { locale: ru },
+  },
+  time: {
+    tooltipFormat: 'd MMM yyyy',
+  },
+};
+
+export const buildChartOptions = (): ChartOptions<'line'> => ({
+  responsive: true,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: {
+        filter: (item) => !isBound(item.text),
+      },
+    },
+    tooltip: {
+      mode: 'nearest',
+      intersect: false,
+      filter: (item) => !isBound(item.dataset.label),
+    },
+    // Only takes effect where the zoom plugin is registered
+    zoom: {
+      zoom: {
+        wheel: { enabled: true },
+        pinch: { enabled: true },
+        mode: 'x',
+      },
+      pan: {
+        enabled: true,
+        mode: 'x',
+      },
+      limits: {
+        x: { min: 'original', max: 'original' },
+      },
+    },
+  },
+  scales: {
+    x: timeScale,
+    y: {
+      beginAtZero: false,
+    },
+  },
+  interaction: {
+    mode: 'nearest',
+    intersect: false,
+  },
+});
+
+// The first metric's axis is on the left, the others on the right; only the
+// first one draws grid lines so they do not clash
+export const buildOverlayChartOptions = (metrics: ChartMetric[]): ChartOptions<'line'> => {
+  const base = buildChartOptions();
+  const yAxes = Object.fromEntries(
+    metrics.map((metric, index) => {
+      const option = getMetricOption(metric);
+      return [
+        getAxisId(metric),
+        {
+          type: 'linear' as const,
+          position: index === 0 ? ('left' as const) : ('right' as const),
+          beginAtZero: false,
+          title: { display: true, text: option?.label ?? metric, color: option?.color },
+          ticks: { color: option?.color },
+          grid: { drawOnChartArea: index === 0 },
+        },
+      ];
+    })
+  );
+
+  return { ...base, scales: { x: timeScale, ...yAxes } };
+};
@@ -0,0 +1,180 @@
+import { Chart, PointElement } from 'chart.js';
+import { downloadFile } from './download';
+
+const FONT = 'font-family="sans-serif" font-size="12"';
+const TEXT_COLOR = '#666';
+const GRID_COLOR = 'rgba(0, 0, 0, 0.1)';
+
+// Scale options read for the export; chart.js types them per scale type
+interface ExportedScaleOptions {
+  display?: boolean | 'auto';
+  grid?: { display?: boolean; drawOnChartArea?: boolean };
+  ticks?: { color?: unknown };
+  title?: { display?: boolean; text?: string | string[]; color?: unknown };
+}
+
+interface ExportedLineOptions {
+  borderColor?: unknown;
+  backgroundColor?: unknown;
+  borderWidth?: number;
+  borderDash?: number[];
+  fill?: unknown;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+
+const toColor = (value: unknown, fallback = 'none') => (typeof value === 'string' ? value : fallback);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const text = (x: number, y: number, content: string, attributes = '') =>
+  `<text x="${round(x)}" y="${round(y)}" ${FONT} ${attributes}>${escapeXml(content)}</text>`;
+
+const toPath = (points: Array<{ x: number; y: number }>) =>
+  points.map((point, index) => `${index === 0 ? 'M' : 'L'}${round(point.x)} ${round(point.y)}`).join(' ');
+
+const drawPoint = (point: PointElement) => {
+  const { radius, pointStyle, backgroundColor, borderColor, borderWidth } = point.options;
+  if (!radius) return '';
+
+  const x = round(point.x);
+  const y = round(point.y);
+  const paint = `fill="${toColor(backgroundColor)}" stroke="${toColor(borderColor)}" stroke-width="${borderWidth}"`;
+  switch (pointStyle) {
+    case 'rect':
+      return `<rect x="${x - radius}" y="${y - radius}" width="${radius * 2}" height="${radius * 2}" ${paint}/>`;
+    case 'rectRot':
+      return `<polygon points="${x},${y - radius} ${x + radius},${y} ${x},${y + radius} ${x - radius},${y}" ${paint}/>`;
+    case 'triangle':
+      return `<polygon points="${x},${y - radius} ${x + radius},${y + radius} ${x - radius},${y + radius}" ${paint}/>`;
+    default:
+      return `<circle cx="${x}" cy="${y}" r="${radius}" ${paint}/>`;
+  }
+};
+
+// Rebuilds the rendered chart as vector graphics from the positions chart.js
+// has laid out: axes, shaded fills, lines, points and the legend
+export const chartToSVG = (chart: Chart): string => {
+  const { width, height, chartArea } = chart;
+  const parts: string[] = [`<rect width="${width}" height="${height}" fill="white"/>`];
+
+  Object.values(chart.scales).forEach((scale) => {
+    const options = scale.options as ExportedScaleOptions;
+    if (options.display === false) return;
+    const isX = scale.axis === 'x';
+    const drawGrid = options.grid?.display !== false && options.grid?.drawOnChartArea !== false;
+    const tickColor = toColor(options.ticks?.color, TEXT_COLOR);
+
+    scale.ticks.forEach((tick, index) => {
+      const pixel = scale.getPixelForTick(index);
+      const label = Array.isArray(tick.label) ? tick.label.join(' ') : String(tick.label ?? '');
+      if (isX) {
+        if (drawGrid) {
+          parts.push(`<line x1="${round(pixel)}" y1="${chartArea.top}" x2="${round(pixel)}" y2="${chartArea.bottom}" stroke="${GRID_COLOR}"/>`);
+        }
+        parts.push(text(pixel, chartArea.bottom + 16, label, `fill="${tickColor}" text-anchor="middle"`));
+      } else {
+        if (drawGrid) {
+          parts.push(`<line x1="${chartArea.left}" y1="${round(pixel)}" x2="${chartArea.right}" y2="${round(pixel)}" stroke="${GRID_COLOR}"/>`);
+        }
+        const onLeft = scale.position === 'left';
+        parts.push(
+          text(onLeft ? chartArea.left - 6 : chartArea.right + 6, pixel + 4, label, `fill="${tickColor}" text-anchor="${onLeft ? 'end' : 'start'}"`)
+        );
+      }
+    });
+
+    const title = options.title;
+    if (title?.display && title.text) {
+      const content = Array.isArray(title.text) ? title.text.join(' ') : title.text;
+      const color = toColor(title.color, TEXT_COLOR);
+      if (isX) {
+        parts.push(text((chartArea.left + chartArea.right) / 2, scale.bottom - 2, content, `fill="${color}" text-anchor="middle"`));
+      } else {
+        const x = scale.position === 'left' ? scale.left + 12 : scale.right - 4;
+        const y = (chartArea.top + chartArea.bottom) / 2;
+        parts.push(text(x, y, content, `fill="${color}" text-anchor="middle" transform="rotate(-90 ${round(x)} ${round(y)})"`));
+      }
+    }
+  });
+
+  // Fills and lines are clipped to the plot area like on the canvas
+  const plot: string[] = [];
+  const visiblePoints: Array<Array<{ x: number; y: number }>> = [];
+  chart.data.datasets.forEach((_, index) => {
+    if (!chart.isDatasetVisible(index)) return;
+    const meta = chart.getDatasetMeta(index);
+    const points = (meta.data as PointElement[]).filter((point) => !point.skip);
+    const lineOptions = (meta.dataset?.options ?? {}) as ExportedLineOptions;
+    const previous = visiblePoints[visiblePoints.length - 1];
+    visiblePoints.push(points);
+    if (points.length === 0) return;
+
+    let area: Array<{ x: number; y: number }> | null = null;
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (lineOptions.fill === '-1' && previous?.length) {
+      area = [...points, ...[...previous].reverse()];
+    } else if (lineOptions.fill === 'start' || lineOptions.fill === 'end') {
+      const edge = lineOptions.fill === 'start' ? chartArea.bottom : chartArea.top;
+      area = [...points, { x: last.x, y: edge }, { x: first.x, y: edge }];
+    }
+    if (area) {
+      plot.push(`<path d="${toPath(area)} Z" fill="${toColor(lineOptions.backgroundColor)}" stroke="none"/>`);
+    }
+
+    const stroke = toColor(lineOptions.borderColor);
+    if (stroke !== 'none' && stroke !== 'transparent' && points.length > 1) {
+      const dash = lineOptions.borderDash?.length ? ` stroke-dasharray="${lineOptions.borderDash.join(' ')}"` : '';
+      plot.push(
+        `<path d="${toPath(points)}" fill="none" stroke="${stroke}" stroke-width="${lineOptions.borderWidth ?? 1}"${dash}/>`
+      );
+    }
+    points.forEach((point) => plot.push(drawPoint(point)));
+  });
+  parts.push(
+    `<clipPath id="plot-area"><rect x="${chartArea.left}" y="${chartArea.top}" width="${chartArea.right - chartArea.left}" height="${chartArea.bottom - chartArea.top}"/></clipPath>`,
+    `<g clip-path="url(#plot-area)">${plot.join('')}</g>`
+  );
+
+  // Legend in rows above the plot; the text width is an estimate
+  let x = chartArea.left;
+  let y = 16;
+  (chart.legend?.legendItems ?? [])
+    .filter((item) => !item.hidden)
+    .forEach((item) => {
+      const itemWidth = 20 + item.text.length * 7 + 12;
+      if (x + itemWidth > width && x > chartArea.left) {
+        x = chartArea.left;
+        y += 18;
+      }
+      parts.push(
+        `<rect x="${x}" y="${y - 10}" width="12" height="12" fill="${toColor(item.fillStyle)}" stroke="${toColor(item.strokeStyle)}"/>`,
+        text(x + 18, y, item.text, `fill="${TEXT_COLOR}"`)
+      );
+      x += itemWidth;
+    });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${parts.join('')}</svg>`;
+};
+
+export const exportChartSVG = (chart: Chart, filename: string) => {
+  downloadFile(chartToSVG(chart), `${filename}.svg`, 'image/svg+xml');
+};
+
+// The canvas is transparent, so the PNG gets a white background
+export const exportChartPNG = (chart: Chart, filename: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = chart.canvas.width;
+  canvas.height = chart.canvas.height;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(chart.canvas, 0, 0);
+  canvas.toBlob((blob) => {
+    if (blob) downloadFile(blob, `${filename}.png`, 'image/png');
+  }, 'image/png');
+};
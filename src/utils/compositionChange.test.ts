@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Measurement } from '../types';
+import { classifyCompositionChange, compareMeasurements, formatCompositionChange } from './compositionChange';
+
+const measurement = (
+  id: string,
+  date: string,
+  weight: number,
+  bodyFatMass: number,
+  skeletalMuscleMass = 25.4
+): Measurement => ({
+  id,
+  userId: 'user-1',
+  date: new Date(date),
+  weight,
+  bodyFatMass,
+  bodyFatPercentage: parseFloat(((bodyFatMass / weight) * 100).toFixed(1)),
+  skeletalMuscleMass,
+  bmi: 22.7,
+  pbf: parseFloat(((bodyFatMass / weight) * 100).toFixed(1)),
+});
+
+describe('compareMeasurements', () => {
+  it('shows an unchanged value as 0', () => {
+    // -0.4 - -0.1 - -0.3 is a tiny negative number in floating point
+    const change = compareMeasurements(
+      measurement('m-1', '2024-03-01T08:30:00.000Z', 64.4, 17.3, 25.4),
+      measurement('m-2', '2024-04-01T08:30:00.000Z', 64, 17.2, 25.1)
+    );
+
+    expect(change.otherLeanChange).toBe(0);
+    expect(change.deltas.map((delta) => formatCompositionChange(delta.change))).toEqual([
+      '−0.4',
+      '−0.1',
+      '−0.3',
+      '0',
+      '0',
+    ]);
+    expect(change.type).toBe('stable');
+  });
+
+  it('compares in chronological order', () => {
+    const change = compareMeasurements(
+      measurement('m-2', '2024-04-01T08:30:00.000Z', 62.5, 15.2),
+      measurement('m-1', '2024-03-01T08:30:00.000Z', 64.1, 17.3)
+    );
+
+    expect(change.days).toBe(31);
+    expect(formatCompositionChange(change.weightChange)).toBe('−1.6');
+    expect(change.type).toBe('fatLoss');
+  });
+});
+
+describe('classifyCompositionChange', () => {
+  it('ignores changes within the repeatability of a scan', () => {
+    expect(classifyCompositionChange(-0.5, 0.3)).toBe('stable');
+    expect(classifyCompositionChange(-0.6, 0.4)).toBe('recomposition');
+    expect(classifyCompositionChange(0.6, -0.4)).toBe('muscleLoss');
+  });
+});
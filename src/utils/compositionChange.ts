@@ -0,0 +1,171 @@
+import { Measurement } from '../types';
+import { sortByDate } from './dateRange';
+
+// Changes smaller than this are within the repeatability of a bioimpedance
+// scan and are treated as "no change"
+export const CHANGE_TOLERANCE = { fatMass: 0.5, skeletalMuscleMass: 0.3 };
+
+export type CompositionChangeType =
+  | 'recomposition'
+  | 'fatLoss'
+  | 'fatAndMuscleLoss'
+  | 'muscleLoss'
+  | 'muscleGain'
+  | 'bulk'
+  | 'fatGain'
+  | 'stable';
+
+export interface CompositionDelta {
+  key: 'weight' | 'bodyFatMass' | 'skeletalMuscleMass' | 'otherLeanMass' | 'bodyFatPercentage';
+  label: string;
+  unit: string;
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface CompositionChange {
+  from: Measurement;
+  to: Measurement;
+  days: number;
+  weightChange: number;
+  // The weight change split into its parts; they add up to weightChange
+  fatMassChange: number;
+  skeletalMuscleChange: number;
+  otherLeanChange: number; // water, organs and bone
+  deltas: CompositionDelta[];
+  type: CompositionChangeType;
+  label: string;
+  recommendation: string;
+}
+
+const COMPOSITION_CHANGE_INFO: Record<CompositionChangeType, { label: string; recommendation: string }> = {
+  recomposition: {
+    label: 'Рекомпозиция',
+    recommendation:
+      'Жир уходит, мышцы растут — отличный результат. Сохраняйте силовые тренировки и достаточное потребление белка.',
+  },
+  fatLoss: {
+    label: 'Потеря жира с сохранением мышц',
+    recommendation:
+      'Снижение идёт за счёт жира, мышечная масса сохранена. Продолжайте в том же темпе и не урезайте белок.',
+  },
+  fatAndMuscleLoss: {
+    label: 'Потеря жира и мышц',
+    recommendation:
+      'Вместе с жиром уходят мышцы. Уменьшите дефицит калорий, добавьте силовые тренировки и белок (1,6–2,2 г на кг веса).',
+  },
+  muscleLoss: {
+    label: 'Потеря мышц',
+    recommendation:
+      'Мышечная масса снижается без потери жира. Пересмотрите питание и нагрузку, при необходимости обратитесь к специалисту.',
+  },
+  muscleGain: {
+    label: 'Набор мышц без жира',
+    recommendation: 'Мышцы растут без прибавки жира. Сохраняйте текущий режим питания и тренировок.',
+  },
+  bulk: {
+    label: 'Набор мышц и жира',
+    recommendation:
+      'Растут и мышцы, и жир. Если прибавка жира опережает мышцы, немного уменьшите профицит калорий.',
+  },
+  fatGain: {
+    label: 'Набор жира',
+    recommendation:
+      'Прибавка идёт за счёт жира. Проверьте калорийность рациона и добавьте физическую активность.',
+  },
+  stable: {
+    label: 'Без существенных изменений',
+    recommendation: 'Состав тела стабилен. Если есть цель, скорректируйте питание или тренировки.',
+  },
+};
+
+// Tiny negative differences would otherwise round to -0
+const round = (value: number) => parseFloat(value.toFixed(2)) || 0;
+
+// Signed change for display; no change is shown as a plain 0
+export const formatCompositionChange = (value: number) =>
+  `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value)}`;
+
+// -1, 0 or 1 depending on whether the change exceeds the tolerance
+const direction = (change: number, tolerance: number) =>
+  Math.abs(change) <= tolerance ? 0 : Math.sign(change);
+
+export const classifyCompositionChange = (
+  fatMassChange: number,
+  skeletalMuscleChange: number
+): CompositionChangeType => {
+  const fat = direction(fatMassChange, CHANGE_TOLERANCE.fatMass);
+  const muscle = direction(skeletalMuscleChange, CHANGE_TOLERANCE.skeletalMuscleMass);
+
+  if (fat < 0) {
+    if (muscle > 0) return 'recomposition';
+    return muscle < 0 ? 'fatAndMuscleLoss' : 'fatLoss';
+  }
+  if (muscle < 0) return 'muscleLoss';
+  if (muscle > 0) return fat > 0 ? 'bulk' : 'muscleGain';
+  return fat > 0 ? 'fatGain' : 'stable';
+};
+
+// Compares two measurements in chronological order, whatever order they are passed in
+export const compareMeasurements = (a: Measurement, b: Measurement): CompositionChange => {
+  const [from, to] = sortByDate([a, b]);
+
+  const weightChange = round(to.weight - from.weight);
+  const fatMassChange = round(to.bodyFatMass - from.bodyFatMass);
+  const skeletalMuscleChange = round(to.skeletalMuscleMass - from.skeletalMuscleMass);
+  const otherLeanChange = round(weightChange - fatMassChange - skeletalMuscleChange);
+
+  const otherLean = (m: Measurement) => round(m.weight - m.bodyFatMass - m.skeletalMuscleMass);
+
+  const deltas: CompositionDelta[] = [
+    { key: 'weight', label: 'Вес', unit: 'кг', from: from.weight, to: to.weight, change: weightChange },
+    {
+      key: 'bodyFatMass',
+      label: 'Жировая масса',
+      unit: 'кг',
+      from: from.bodyFatMass,
+      to: to.bodyFatMass,
+      change: fatMassChange,
+    },
+    {
+      key: 'skeletalMuscleMass',
+      label: 'Скелетная мышечная масса',
+      unit: 'кг',
+      from: from.skeletalMuscleMass,
+      to: to.skeletalMuscleMass,
+      change: skeletalMuscleChange,
+    },
+    {
+      key: 'otherLeanMass',
+      label: 'Прочая безжировая масса',
+      unit: 'кг',
+      from: otherLean(from),
+      to: otherLean(to),
+      change: otherLeanChange,
+    },
+    {
+      key: 'bodyFatPercentage',
+      label: 'Процент жира',
+      unit: '%',
+      from: from.bodyFatPercentage,
+      to: to.bodyFatPercentage,
+      change: round(to.bodyFatPercentage - from.bodyFatPercentage),
+    },
+  ];
+
+  const type = classifyCompositionChange(fatMassChange, skeletalMuscleChange);
+
+  return {
+    from,
+    to,
+    days: Math.round((to.date.getTime() - from.date.getTime()) / (24 * 60 * 60 * 1000)),
+    weightChange,
+    fatMassChange,
+    skeletalMuscleChange,
+    otherLeanChange,
+    deltas,
+    type,
+    ...COMPOSITION_CHANGE_INFO[type],
+  };
+};
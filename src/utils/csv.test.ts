@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Measurement, User } from '../types';
+import { exportMeasurementsToCSV, parseMeasurementsCSV, parseNumber } from './csv';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+describe('parseNumber', () => {
+  it('accepts a decimal comma and digit groups', () => {
+    expect(parseNumber('64,2')).toBe(64.2);
+    expect(parseNumber('64.2')).toBe(64.2);
+    expect(parseNumber('1 520')).toBe(1520);
+    expect(parseNumber('')).toBeUndefined();
+    expect(parseNumber('64 кг')).toBeNaN();
+  });
+});
+
+describe('parseMeasurementsCSV', () => {
+  it('reads a file with semicolons and decimal commas', () => {
+    const { measurements, errors } = parseMeasurementsCSV(
+      [
+        'date;weight;bodyFatPercentage;skeletalMuscleMass;visceralFat',
+        '2024-03-01T08:30:00.000Z;64,2;26,9;25,4;',
+        '2024-04-01T08:30:00.000Z;64,2 кг;26,9;25,4;',
+      ].join('\r\n'),
+      user
+    );
+
+    expect(errors.map((error) => error.row)).toEqual([3]);
+    expect(errors[0].messages).toContain('Некорректное число в столбце weight: "64,2 кг"');
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0]).toMatchObject({ weight: 64.2, bodyFatPercentage: 26.9, skeletalMuscleMass: 25.4 });
+    expect(measurements[0].visceralFat).toBeUndefined();
+  });
+
+  it('reads back its own export in a comma locale', () => {
+    const measurement: Measurement = {
+      id: 'm-1',
+      userId: user.id,
+      date: new Date('2024-03-01T08:30:00.000Z'),
+      weight: 64.2,
+      bodyFatMass: 17.3,
+      bodyFatPercentage: 26.9,
+      skeletalMuscleMass: 25.4,
+      bmi: 22.7,
+      pbf: 26.9,
+      waterPercentage: 52.5,
+      bodyFatMethod: 'bioimpedance',
+    };
+    const text = exportMeasurementsToCSV([measurement], 'ru-RU');
+
+    expect(text.split('\r\n')[1]).toContain(';64,2;');
+    expect(parseMeasurementsCSV(text, user)).toEqual({ measurements: [measurement], errors: [] });
+  });
+});
@@ -0,0 +1,256 @@
+import { BodyFatMethod, Measurement, User } from '../types';
+import { calculateBMI } from './healthCalculations';
+import { validateMeasurement } from './validation';
+import { clearUnmeasuredZeros } from './storage';
+import { isBodyFatMethod } from './bodyFatEstimation';
+import { BODY_SEGMENTS, GIRTH_FIELDS, SEGMENT_VALUE_FIELDS } from './bodyMeasurements';
+import { v4 as uuidv4 } from 'uuid';
+
+// Column order of the exported file; every scalar Measurement field is included
+export const CSV_COLUMNS: Array<keyof Measurement> = [
+  'id',
+  'userId',
+  'date',
+  'weight',
+  'bodyFatMass',
+  'bodyFatPercentage',
+  'skeletalMuscleMass',
+  'bmi',
+  'pbf',
+  'visceralFat',
+  'waterPercentage',
+  'basalMetabolicRate',
+  'metabolicAge',
+  'bodyFatMethod',
+];
+
+type TextField = 'id' | 'userId' | 'date' | 'bodyFatMethod';
+type NestedField = 'girths' | 'segmental';
+export type NumericField = Exclude<keyof Measurement, TextField | NestedField>;
+
+const TEXT_COLUMNS: string[] = ['id', 'userId', 'date', 'bodyFatMethod'];
+
+export const NUMERIC_COLUMNS = CSV_COLUMNS.filter(
+  (column): column is NumericField => !TEXT_COLUMNS.includes(column)
+);
+
+// Girths and segmental values are flattened into dotted columns that follow
+// the scalar ones, e.g. "girths.waist" and "segmental.leftArm.lean"
+export const NESTED_COLUMNS: string[] = [
+  ...GIRTH_FIELDS.map((field) => `girths.${field}`),
+  ...BODY_SEGMENTS.flatMap((segment) =>
+    SEGMENT_VALUE_FIELDS.map((field) => `segmental.${segment}.${field}`)
+  ),
+];
+
+export const getNestedValue = (measurement: Measurement, column: string): number | undefined => {
+  const value = column
+    .split('.')
+    .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], measurement);
+  return typeof value === 'number' ? value : undefined;
+};
+
+export const setNestedValue = (target: Record<string, unknown>, column: string, value: number) => {
+  const keys = column.split('.');
+  const parent = keys.slice(0, -1).reduce((current, key) => {
+    current[key] = (current[key] as Record<string, unknown> | undefined) ?? {};
+    return current[key] as Record<string, unknown>;
+  }, target);
+  parent[keys[keys.length - 1]] = value;
+};
+
+export interface CSVRowError {
+  row: number;
+  messages: string[];
+}
+
+export interface CSVImportResult {
+  measurements: Measurement[];
+  errors: CSVRowError[];
+}
+
+export const getDecimalSeparator = (locale: string): string => {
+  const part = new Intl.NumberFormat(locale)
+    .formatToParts(1.1)
+    .find((p) => p.type === 'decimal');
+  return part ? part.value : '.';
+};
+
+// Spreadsheet apps expect ';' as the delimiter when ',' is the decimal separator
+const getDelimiter = (decimalSeparator: string): string =>
+  decimalSeparator === ',' ? ';' : ',';
+
+const escapeCell = (value: string, delimiter: string): string => {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const formatCell = (
+  value: Measurement[keyof Measurement],
+  decimalSeparator: string
+): string => {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return String(value).replace('.', decimalSeparator);
+  return String(value);
+};
+
+export const exportMeasurementsToCSV = (
+  measurements: Measurement[],
+  locale: string = navigator.language
+): string => {
+  const decimalSeparator = getDecimalSeparator(locale);
+  const delimiter = getDelimiter(decimalSeparator);
+
+  const sorted = [...measurements].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  const rows = sorted.map((measurement) =>
+    [
+      ...CSV_COLUMNS.map((column) => formatCell(measurement[column], decimalSeparator)),
+      ...NESTED_COLUMNS.map((column) => formatCell(getNestedValue(measurement, column), decimalSeparator)),
+    ]
+      .map((cell) => escapeCell(cell, delimiter))
+      .join(delimiter)
+  );
+
+  return [[...CSV_COLUMNS, ...NESTED_COLUMNS].join(delimiter), ...rows].join('\r\n');
+};
+
+export const splitLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((cell) => cell.trim());
+};
+
+// Accepts both '.' and ',' as the decimal separator
+export const parseNumber = (value: string): number | undefined => {
+  if (value === '') return undefined;
+  const parsed = Number(value.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+export const parseMeasurementsCSV = (text: string, user: User): CSVImportResult => {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+
+  if (lines.length === 0) {
+    return { measurements: [], errors: [{ row: 1, messages: ['Файл пуст'] }] };
+  }
+
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const header = splitLine(lines[0], delimiter);
+
+  const missingColumns = ['date', 'weight', 'bodyFatPercentage', 'skeletalMuscleMass'].filter(
+    (column) => !header.includes(column)
+  );
+  if (missingColumns.length > 0) {
+    return {
+      measurements: [],
+      errors: [{ row: 1, messages: [`Отсутствуют столбцы: ${missingColumns.join(', ')}`] }],
+    };
+  }
+
+  const measurements: Measurement[] = [];
+  const errors: CSVRowError[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    const row = index + 2;
+    const cells = splitLine(line, delimiter);
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => {
+      record[column] = cells[i] ?? '';
+    });
+
+    const messages: string[] = [];
+    const numbers: Partial<Pick<Measurement, NumericField>> = {};
+
+    NUMERIC_COLUMNS.forEach((column) => {
+      const value = parseNumber(record[column] ?? '');
+      if (value !== undefined && Number.isNaN(value)) {
+        messages.push(`Некорректное число в столбце ${column}: "${record[column]}"`);
+      } else {
+        numbers[column] = value;
+      }
+    });
+
+    const nested: Pick<Measurement, NestedField> = {};
+    NESTED_COLUMNS.forEach((column) => {
+      const value = parseNumber(record[column] ?? '');
+      if (value === undefined) return;
+      if (Number.isNaN(value)) {
+        messages.push(`Некорректное число в столбце ${column}: "${record[column]}"`);
+      } else {
+        setNestedValue(nested as Record<string, unknown>, column, value);
+      }
+    });
+
+    const date = new Date(record.date);
+    messages.push(...Object.values(validateMeasurement({ ...numbers, ...nested, date })));
+
+    // Files exported before the column existed contain scanned values only
+    const bodyFatMethod = record.bodyFatMethod || 'bioimpedance';
+    if (!isBodyFatMethod(bodyFatMethod)) {
+      messages.push(`Неизвестный метод определения жира: "${record.bodyFatMethod}"`);
+    }
+
+    if (messages.length > 0) {
+      errors.push({ row, messages });
+      return;
+    }
+
+    const weight = numbers.weight!;
+    const bodyFatPercentage = numbers.bodyFatPercentage!;
+
+    const measurement: Measurement = {
+      id: record.id || uuidv4(),
+      userId: user.id,
+      date,
+      weight,
+      bodyFatMass: numbers.bodyFatMass ?? weight * (bodyFatPercentage / 100),
+      bodyFatPercentage,
+      skeletalMuscleMass: numbers.skeletalMuscleMass!,
+      bmi: numbers.bmi ?? calculateBMI(weight, user.height),
+      pbf: numbers.pbf ?? bodyFatPercentage,
+      visceralFat: numbers.visceralFat,
+      waterPercentage: numbers.waterPercentage,
+      basalMetabolicRate: numbers.basalMetabolicRate,
+      metabolicAge: numbers.metabolicAge,
+      bodyFatMethod: bodyFatMethod as BodyFatMethod,
+      ...nested,
+    };
+    // Files exported by earlier versions hold 0 for values that were not measured
+    measurements.push(clearUnmeasuredZeros(measurement));
+  });
+
+  return { measurements, errors };
+};
@@ -0,0 +1,77 @@
+import { Measurement } from '../types';
+
+export const sortByDate = (measurements: Measurement[]): Measurement[] =>
+  [...measurements].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+export const filterByDateRange = (
+  measurements: Measurement[],
+  from?: Date,
+  to?: Date
+): Measurement[] =>
+  measurements.filter((m) => {
+    const time = m.date.getTime();
+    if (from && time < from.getTime()) return false;
+    if (to && time > to.getTime()) return false;
+    return true;
+  });
+
+const toLocalISOString = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString();
+};
+
+// Value for <input type="date"> in local time
+export const toDateInputValue = (date: Date): string => toLocalISOString(date).slice(0, 10);
+
+// Value for <input type="datetime-local"> in local time
+export const toDateTimeInputValue = (date: Date): string => toLocalISOString(date).slice(0, 16);
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  toDateInputValue(new Date(a)) === toDateInputValue(new Date(b));
+
+export const startOfDay = (value: string): Date => new Date(`${value}T00:00:00`);
+
+export const endOfDay = (value: string): Date => new Date(`${value}T23:59:59.999`);
+
+export type RangePreset = '1M' | '3M' | '6M' | '1Y' | 'all' | 'custom';
+
+// The selected period; `from` and `to` are <input type="date"> values used by the custom range
+export interface DateRangeSelection {
+  preset: RangePreset;
+  from: string;
+  to: string;
+}
+
+export const DEFAULT_DATE_RANGE: DateRangeSelection = { preset: 'all', from: '', to: '' };
+
+const PRESET_MONTHS: Partial<Record<RangePreset, number>> = { '1M': 1, '3M': 3, '6M': 6, '1Y': 12 };
+
+export const RANGE_PRESETS: Array<{ value: RangePreset; label: string }> = [
+  { value: '1M', label: '1 мес' },
+  { value: '3M', label: '3 мес' },
+  { value: '6M', label: '6 мес' },
+  { value: '1Y', label: '1 год' },
+  { value: 'all', label: 'Всё' },
+  { value: 'custom', label: 'Период' },
+];
+
+export const resolveDateRange = (
+  selection: DateRangeSelection,
+  now: Date = new Date()
+): { from?: Date; to?: Date } => {
+  if (selection.preset === 'custom') {
+    return {
+      from: selection.from ? startOfDay(selection.from) : undefined,
+      to: selection.to ? endOfDay(selection.to) : undefined,
+    };
+  }
+
+  const months = PRESET_MONTHS[selection.preset];
+  if (months === undefined) return {};
+
+  const from = new Date(now);
+  from.setMonth(from.getMonth() - months);
+  return { from };
+};
@@ -0,0 +1,136 @@
+import { HealthStatus, Measurement, User } from '../types';
+import {
+  BODY_COMPOSITION_INDEX_NORMS,
+  BODY_COMPOSITION_INDEX_SOURCES,
+  SKELETAL_MUSCLE_NORMS,
+  formatRange,
+  getReferencePopulation,
+} from './norms';
+
+export interface DerivedMetrics {
+  leanBodyMass: number; // in kg
+  ffmi: number; // in kg/m²
+  normalizedFfmi: number; // FFMI adjusted to a height of 1.8 m
+  fatMassIndex: number; // in kg/m²
+  skeletalMuscleIndex: number; // in kg/m²
+  muscleToFatRatio: number | null; // null when there is no fat mass to compare with
+}
+
+export type DerivedMetric = keyof DerivedMetrics;
+
+const DERIVED_METRICS: DerivedMetric[] = [
+  'leanBodyMass',
+  'ffmi',
+  'normalizedFfmi',
+  'fatMassIndex',
+  'skeletalMuscleIndex',
+  'muscleToFatRatio',
+];
+
+export const isDerivedMetric = (metric: string): metric is DerivedMetric =>
+  (DERIVED_METRICS as string[]).includes(metric);
+
+const round = (value: number, digits = 1) => parseFloat(value.toFixed(digits));
+
+// Lean body mass is taken as fat-free mass: weight minus fat mass
+export const calculateDerivedMetrics = (measurement: Measurement, height: number): DerivedMetrics => {
+  const heightInMeters = height / 100;
+  const heightSquared = heightInMeters * heightInMeters;
+  const leanBodyMass = measurement.weight - measurement.bodyFatMass;
+  const ffmi = leanBodyMass / heightSquared;
+
+  return {
+    leanBodyMass: round(leanBodyMass),
+    ffmi: round(ffmi),
+    // Kouri et al., 1995
+    normalizedFfmi: round(ffmi + 6.1 * (1.8 - heightInMeters)),
+    fatMassIndex: round(measurement.bodyFatMass / heightSquared),
+    skeletalMuscleIndex: round(measurement.skeletalMuscleMass / heightSquared),
+    muscleToFatRatio:
+      measurement.bodyFatMass > 0
+        ? round(measurement.skeletalMuscleMass / measurement.bodyFatMass, 2)
+        : null,
+  };
+};
+
+export interface DerivedMetricResult {
+  metric: DerivedMetric;
+  label: string;
+  value: number | null;
+  unit: string;
+  // Only set for indices with an established reference range
+  status?: HealthStatus;
+  normalRange?: string;
+  source?: string;
+}
+
+export const getFFMIStatus = (ffmi: number, normal: number): HealthStatus =>
+  ffmi < normal ? 'low' : 'normal';
+
+export const getFatMassIndexStatus = (
+  fatMassIndex: number,
+  ranges: { normal: number; high: number; obese: number }
+): HealthStatus => {
+  if (fatMassIndex < ranges.normal) return 'low';
+  if (fatMassIndex < ranges.high) return 'normal';
+  if (fatMassIndex < ranges.obese) return 'high';
+  return 'obese';
+};
+
+export const classifyDerivedMetrics = (measurement: Measurement, user: User): DerivedMetricResult[] => {
+  const metrics = calculateDerivedMetrics(measurement, user.height);
+  const population = getReferencePopulation(user);
+  const { ffmi, fatMassIndex } = BODY_COMPOSITION_INDEX_NORMS[population];
+  const smiThreshold = SKELETAL_MUSCLE_NORMS[population].indexPerHeight;
+
+  return [
+    {
+      metric: 'leanBodyMass',
+      label: 'Безжировая масса',
+      value: metrics.leanBodyMass,
+      unit: 'кг',
+    },
+    {
+      metric: 'ffmi',
+      label: 'Индекс безжировой массы (FFMI)',
+      value: metrics.ffmi,
+      unit: 'кг/м²',
+      status: getFFMIStatus(metrics.ffmi, ffmi.normal),
+      normalRange: `≥ ${ffmi.normal}`,
+      source: BODY_COMPOSITION_INDEX_SOURCES.ffmi,
+    },
+    {
+      metric: 'normalizedFfmi',
+      label: 'FFMI, приведённый к росту 1.8 м',
+      value: metrics.normalizedFfmi,
+      unit: 'кг/м²',
+      status: getFFMIStatus(metrics.normalizedFfmi, ffmi.normal),
+      normalRange: `≥ ${ffmi.normal}`,
+      source: BODY_COMPOSITION_INDEX_SOURCES.ffmi,
+    },
+    {
+      metric: 'fatMassIndex',
+      label: 'Индекс жировой массы (FMI)',
+      value: metrics.fatMassIndex,
+      unit: 'кг/м²',
+      status: getFatMassIndexStatus(metrics.fatMassIndex, fatMassIndex),
+      normalRange: formatRange(fatMassIndex.normal, fatMassIndex.high),
+      source: BODY_COMPOSITION_INDEX_SOURCES.fatMassIndex,
+    },
+    {
+      metric: 'skeletalMuscleIndex',
+      label: 'Индекс скелетной мускулатуры (SMI)',
+      value: metrics.skeletalMuscleIndex,
+      unit: 'кг/м²',
+      status: metrics.skeletalMuscleIndex < smiThreshold ? 'low' : 'normal',
+      normalRange: `≥ ${smiThreshold}`,
+      source: BODY_COMPOSITION_INDEX_SOURCES.skeletalMuscleIndex,
+    },
+    {
+      metric: 'muscleToFatRatio',
+      label: 'Соотношение мышц и жира',
+      value: metrics.muscleToFatRatio,
+      unit: '',
+    },
+  ];
+};
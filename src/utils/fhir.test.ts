@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { Measurement, User } from '../types';
+import { CSV_COLUMNS } from './csv';
+import { LOCAL_CODE_SYSTEM, buildFhirBundle, describePatientMismatch, parseFhirBundle } from './fhir';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+// Every Measurement field set, including the optional and nested ones
+const fullMeasurement: Measurement = {
+  id: 'measurement-1',
+  userId: user.id,
+  date: new Date('2024-03-01T08:30:00.000Z'),
+  weight: 64.2,
+  bodyFatMass: 17.3,
+  bodyFatPercentage: 26.9,
+  skeletalMuscleMass: 25.4,
+  bmi: 22.7,
+  pbf: 27.1,
+  visceralFat: 6,
+  waterPercentage: 51.8,
+  basalMetabolicRate: 1352,
+  metabolicAge: 31,
+  bodyFatMethod: 'navy',
+  girths: { waist: 72.5, hip: 98, chest: 90.5, arm: 28, thigh: 56 },
+  segmental: {
+    leftArm: { lean: 2.1, fat: 1.2 },
+    rightArm: { lean: 2.2, fat: 1.1 },
+    trunk: { lean: 19.8, fat: 8.4 },
+    leftLeg: { lean: 6.9, fat: 3.2 },
+    rightLeg: { lean: 7, fat: 3.1 },
+  },
+};
+
+// Serialized as it would be written to a file
+const roundTrip = (measurements: Measurement[]) =>
+  parseFhirBundle(JSON.parse(JSON.stringify(buildFhirBundle(user, measurements))), user);
+
+describe('FHIR round trip', () => {
+  it('keeps every Measurement field', () => {
+    expect(Object.keys(fullMeasurement).sort()).toEqual([...CSV_COLUMNS, 'girths', 'segmental'].sort());
+
+    const { measurements, errors } = roundTrip([fullMeasurement]);
+    expect(errors).toEqual([]);
+    expect(measurements).toEqual([fullMeasurement]);
+  });
+
+  it('keeps optional values missing', () => {
+    const minimal: Measurement = {
+      id: 'measurement-2',
+      userId: user.id,
+      date: new Date('2024-04-01T08:30:00.000Z'),
+      weight: 63.5,
+      bodyFatMass: 16.8,
+      bodyFatPercentage: 26.5,
+      skeletalMuscleMass: 25.3,
+      bmi: 22.5,
+      pbf: 26.5,
+    };
+
+    const { measurements } = roundTrip([minimal]);
+    expect(measurements).toEqual([minimal]);
+    expect(measurements[0]).not.toHaveProperty('waterPercentage');
+  });
+
+  it('codes only measured body fat with LOINC', () => {
+    const bodyFatCodings = (measurement: Measurement) =>
+      buildFhirBundle(user, [measurement]).entry.flatMap(({ resource }) =>
+        resource.resourceType === 'Observation' && resource.code.text === 'Процент жира' ? resource.code.coding : []
+      );
+
+    expect(bodyFatCodings(fullMeasurement).map((coding) => coding.system)).toEqual([LOCAL_CODE_SYSTEM]);
+    expect(bodyFatCodings({ ...fullMeasurement, bodyFatMethod: 'bioimpedance' }).map((coding) => coding.code)).toEqual([
+      '41982-0',
+      'bodyFatPercentage',
+    ]);
+  });
+
+  it('reads back the patient', () => {
+    const { patient } = roundTrip([fullMeasurement]);
+    expect(patient).toEqual({ id: user.id, name: user.name, gender: user.gender, email: user.email, age: 34, height: 168 });
+    expect(describePatientMismatch(patient, user)).toEqual([]);
+    expect(describePatientMismatch(patient, { ...user, height: 170 })).toEqual(['рост 168 см (в профиле 170 см)']);
+  });
+});
+
+describe('parseFhirBundle with bundles from other systems', () => {
+  const observation = (code: { system: string; code: string }, value: number, unit: string) => ({
+    resource: {
+      resourceType: 'Observation',
+      status: 'final',
+      code: { coding: [code] },
+      effectiveDateTime: '2024-05-01T10:00:00Z',
+      valueQuantity: { value, code: unit },
+    },
+  });
+  const weightInPounds = observation({ system: 'http://loinc.org', code: '29463-7' }, 143.3, '[lb_av]');
+  const bodyFat = observation({ system: 'http://loinc.org', code: '41982-0' }, 27, '%');
+
+  it('refuses a measurement without the required values', () => {
+    const { measurements, errors } = parseFhirBundle({ resourceType: 'Bundle', entry: [weightInPounds, bodyFat] }, user);
+    expect(measurements).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('converts units and derives what follows from the other values', () => {
+    const muscle = observation({ system: LOCAL_CODE_SYSTEM, code: 'skeletalMuscleMass' }, 25, 'kg');
+    const { measurements, errors } = parseFhirBundle(
+      { resourceType: 'Bundle', entry: [weightInPounds, bodyFat, muscle] },
+      user
+    );
+    expect(errors).toEqual([]);
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0]).toMatchObject({ weight: 65, bodyFatPercentage: 27, skeletalMuscleMass: 25, bmi: 23, pbf: 27 });
+    expect(measurements[0].waterPercentage).toBeUndefined();
+  });
+
+  it('ignores malformed lists instead of throwing', () => {
+    const malformed = {
+      resource: {
+        ...weightInPounds.resource,
+        identifier: { system: 'urn:other', value: 'x' },
+        method: { text: 'scale' },
+      },
+    };
+    const patient = { resource: { resourceType: 'Patient', id: 'p-1', name: 'Анна', telecom: null } };
+    const { measurements, errors } = parseFhirBundle(
+      { resourceType: 'Bundle', entry: [patient, malformed, { resource: { ...bodyFat.resource, code: { coding: 'x' } } }] },
+      user
+    );
+    expect(measurements).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('rejects other resources', () => {
+    expect(parseFhirBundle({ resourceType: 'Patient' }, user).errors).toEqual(['Файл не является FHIR Bundle']);
+  });
+});
@@ -0,0 +1,379 @@
+import { BodyFatMethod, Girths, Measurement, SegmentalAnalysis, User } from '../types';
+import { calculateBMI } from './healthCalculations';
+import { validateMeasurement } from './validation';
+import { BODY_FAT_METHODS, isBodyFatMethod } from './bodyFatEstimation';
+import { GIRTH_LABELS, SEGMENT_LABELS } from './bodyMeasurements';
+import { NESTED_COLUMNS, NUMERIC_COLUMNS, getNestedValue, setNestedValue } from './csv';
+import { INCH_TO_CM, LB_TO_KG } from './units';
+import { v4 as uuidv4 } from 'uuid';
+
+// Minimal FHIR R4 shapes for what the export writes and the import reads
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  name?: Array<{ text?: string; given?: string[]; family?: string }>;
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  telecom?: Array<{ system: string; value: string }>;
+  extension?: Array<{ url: string; valueInteger?: number }>;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status: string;
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: { reference: string };
+  effectiveDateTime?: string;
+  identifier?: Array<{ system: string; value: string }>;
+  valueQuantity?: Partial<FhirQuantity>;
+  method?: FhirCodeableConcept;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: Array<{ fullUrl: string; resource: FhirPatient | FhirObservation }>;
+}
+
+export interface FhirImportResult {
+  patient: Partial<User> | null;
+  measurements: Measurement[];
+  errors: string[];
+}
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// Every observation also carries this app's code, which names the
+// Measurement field, so an export reads back without loss. LOINC codes are
+// added where one describes the value as measured: weight, height, BMI, waist
+// and body fat percentage by bioimpedance. Skeletal muscle mass and the
+// visceral fat level are analyser-specific and have no LOINC term; fat mass,
+// body water and BMR are not mapped to terms for other measuring methods, so
+// receivers only find them by this app's code.
+export const LOCAL_CODE_SYSTEM = 'urn:inbody-analysis-app:measurement-field';
+const MEASUREMENT_ID_SYSTEM = 'urn:inbody-analysis-app:measurement';
+const BODY_FAT_METHOD_SYSTEM = 'urn:inbody-analysis-app:body-fat-method';
+const AGE_EXTENSION = 'urn:inbody-analysis-app:age';
+const HEIGHT_CODE = 'height';
+
+interface ObservationDefinition {
+  display: string;
+  unit: string;
+  ucum: string;
+  loinc?: FhirCoding;
+  vitalSign?: boolean;
+}
+
+const SCALAR_DEFINITIONS: Record<string, ObservationDefinition> = {
+  weight: {
+    display: 'Вес',
+    unit: 'kg',
+    ucum: 'kg',
+    loinc: { system: LOINC, code: '29463-7', display: 'Body weight' },
+    vitalSign: true,
+  },
+  bmi: {
+    display: 'Индекс массы тела',
+    unit: 'kg/m2',
+    ucum: 'kg/m2',
+    loinc: { system: LOINC, code: '39156-5', display: 'Body mass index (BMI) [Ratio]' },
+    vitalSign: true,
+  },
+  bodyFatPercentage: {
+    display: 'Процент жира',
+    unit: '%',
+    ucum: '%',
+    loinc: { system: LOINC, code: '41982-0', display: 'Percentage of body fat Measured' },
+  },
+  bodyFatMass: { display: 'Масса жира', unit: 'kg', ucum: 'kg' },
+  skeletalMuscleMass: { display: 'Скелетная мышечная масса', unit: 'kg', ucum: 'kg' },
+  pbf: { display: 'PBF (InBody)', unit: '%', ucum: '%' },
+  visceralFat: { display: 'Уровень висцерального жира', unit: 'level', ucum: '{score}' },
+  waterPercentage: { display: 'Процент воды', unit: '%', ucum: '%' },
+  basalMetabolicRate: { display: 'Основной обмен', unit: 'kcal/d', ucum: 'kcal/d' },
+  metabolicAge: { display: 'Метаболический возраст', unit: 'a', ucum: 'a' },
+  [HEIGHT_CODE]: {
+    display: 'Рост',
+    unit: 'cm',
+    ucum: 'cm',
+    loinc: { system: LOINC, code: '8302-2', display: 'Body height' },
+    vitalSign: true,
+  },
+};
+
+const getDefinition = (field: string): ObservationDefinition => {
+  if (SCALAR_DEFINITIONS[field]) return SCALAR_DEFINITIONS[field];
+
+  const [group, key, valueKind] = field.split('.');
+  if (group === 'girths') {
+    const girth = key as keyof Girths;
+    return {
+      display: `Обхват: ${GIRTH_LABELS[girth]}`,
+      unit: 'cm',
+      ucum: 'cm',
+      loinc: girth === 'waist' ? { system: LOINC, code: '8280-0', display: 'Waist Circumference at umbilicus by Tape measure' } : undefined,
+    };
+  }
+  const segment = key as keyof SegmentalAnalysis;
+  return {
+    display: `${SEGMENT_LABELS[segment]}: ${valueKind === 'lean' ? 'безжировая масса' : 'масса жира'}`,
+    unit: 'kg',
+    ucum: 'kg',
+  };
+};
+
+const FIELDS = [...NUMERIC_COLUMNS, ...NESTED_COLUMNS];
+
+const buildObservation = (
+  field: string,
+  value: number,
+  date: Date,
+  patientUrl: string,
+  measurementId?: string
+): FhirObservation => {
+  const definition = getDefinition(field);
+  return {
+    resourceType: 'Observation',
+    id: measurementId ? `${measurementId}-${field}` : field,
+    status: 'final',
+    category: [
+      {
+        coding: [
+          {
+            system: CATEGORY_SYSTEM,
+            code: definition.vitalSign ? 'vital-signs' : 'exam',
+            display: definition.vitalSign ? 'Vital Signs' : 'Exam',
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: [
+        ...(definition.loinc ? [definition.loinc] : []),
+        { system: LOCAL_CODE_SYSTEM, code: field, display: definition.display },
+      ],
+      text: definition.display,
+    },
+    subject: { reference: patientUrl },
+    effectiveDateTime: date.toISOString(),
+    identifier: measurementId ? [{ system: MEASUREMENT_ID_SYSTEM, value: measurementId }] : undefined,
+    valueQuantity: { value, unit: definition.unit, system: UCUM, code: definition.ucum },
+  };
+};
+
+const getMethodConcept = (method: BodyFatMethod): FhirCodeableConcept => ({
+  coding: [{ system: BODY_FAT_METHOD_SYSTEM, code: method, display: BODY_FAT_METHODS[method].label }],
+  text: BODY_FAT_METHODS[method].label,
+});
+
+// A collection Bundle: the Patient, the current height and one Observation
+// per stored value of every measurement
+export const buildFhirBundle = (user: User, measurements: Measurement[], now: Date = new Date()): FhirBundle => {
+  const patientUrl = `urn:uuid:${uuidv4()}`;
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    id: user.id,
+    name: [{ text: user.name }],
+    gender: user.gender,
+    telecom: user.email ? [{ system: 'email', value: user.email }] : undefined,
+    // Only the age is known, so there is no birth date
+    extension: [{ url: AGE_EXTENSION, valueInteger: user.age }],
+  };
+
+  const observations = [
+    buildObservation(HEIGHT_CODE, user.height, now, patientUrl),
+    ...measurements.flatMap((measurement) =>
+      FIELDS.flatMap((field) => {
+        const value = getNestedValue(measurement, field);
+        if (value === undefined) return [];
+        const observation = buildObservation(field, value, measurement.date, patientUrl, measurement.id);
+        if (field === 'bodyFatPercentage' && measurement.bodyFatMethod) {
+          observation.method = getMethodConcept(measurement.bodyFatMethod);
+          // The LOINC term is for a measured value; estimates only name their method
+          if (measurement.bodyFatMethod !== 'bioimpedance') {
+            observation.code.coding = observation.code.coding.filter((coding) => coding.system !== LOINC);
+          }
+        }
+        return [observation];
+      })
+    ),
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: now.toISOString(),
+    entry: [
+      { fullUrl: patientUrl, resource: patient },
+      ...observations.map((resource) => ({ fullUrl: `urn:uuid:${uuidv4()}`, resource })),
+    ],
+  };
+};
+
+// Resources from other systems are not trusted to match the types above:
+// lists that are not arrays and items that are not objects are ignored
+const asList = <T>(value: T[] | undefined): T[] =>
+  Array.isArray(value) ? value.filter((item) => typeof item === 'object' && item !== null) : [];
+
+// Field of an observation: this app's code first, then the LOINC code
+const getObservationField = (observation: FhirObservation): string | undefined => {
+  const codings = asList(observation.code?.coding);
+  const local = codings.find((coding) => coding.system === LOCAL_CODE_SYSTEM && (FIELDS.includes(coding.code) || coding.code === HEIGHT_CODE));
+  if (local) return local.code;
+
+  for (const coding of codings.filter((c) => c.system === LOINC)) {
+    const field = [...FIELDS, HEIGHT_CODE].find((candidate) => getDefinition(candidate).loinc?.code === coding.code);
+    if (field) return field;
+  }
+  return undefined;
+};
+
+// Other systems may send weights in g or lb and lengths in m or inches
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  kg: { kg: 1, g: 0.001, '[lb_av]': LB_TO_KG },
+  cm: { cm: 1, m: 100, mm: 0.1, '[in_i]': INCH_TO_CM },
+};
+
+const toStoredUnit = (quantity: Partial<FhirQuantity>, definition: ObservationDefinition): number | null => {
+  if (typeof quantity.value !== 'number') return null;
+  const factors = UNIT_FACTORS[definition.ucum];
+  if (!factors || !quantity.code || quantity.code === definition.ucum) return quantity.value;
+  const factor = factors[quantity.code];
+  return factor === undefined ? null : parseFloat((quantity.value * factor).toFixed(3));
+};
+
+const isObservation = (resource: unknown): resource is FhirObservation =>
+  (resource as FhirObservation | undefined)?.resourceType === 'Observation';
+
+const isPatient = (resource: unknown): resource is FhirPatient =>
+  (resource as FhirPatient | undefined)?.resourceType === 'Patient';
+
+// Reads a Bundle written by this app or an EHR. Observations are grouped
+// into measurements by this app's identifier, otherwise by their time.
+export const parseFhirBundle = (data: unknown, user: User): FhirImportResult => {
+  const bundle = data as Partial<FhirBundle> | null;
+  if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    return { patient: null, measurements: [], errors: ['Файл не является FHIR Bundle'] };
+  }
+
+  const resources = bundle.entry.map((entry) => entry?.resource);
+  const patientResource = resources.find(isPatient);
+  const patientName = patientResource && asList(patientResource.name)[0];
+  const patient: Partial<User> | null = patientResource
+    ? {
+        id: patientResource.id,
+        name: patientName?.text ?? (Array.isArray(patientName?.given) ? patientName.given.join(' ') : undefined),
+        gender: patientResource.gender === 'unknown' ? undefined : patientResource.gender,
+        email: asList(patientResource.telecom).find((telecom) => telecom.system === 'email')?.value,
+        age: asList(patientResource.extension).find((extension) => extension.url === AGE_EXTENSION)?.valueInteger,
+      }
+    : null;
+
+  const errors: string[] = [];
+  const groups = new Map<string, { date: Date; id?: string; values: Record<string, unknown>; method?: string }>();
+
+  resources.filter(isObservation).forEach((observation) => {
+    if (['entered-in-error', 'cancelled'].includes(observation.status)) return;
+    const field = getObservationField(observation);
+    if (!field) return;
+
+    const value = observation.valueQuantity ? toStoredUnit(observation.valueQuantity, getDefinition(field)) : null;
+    if (value === null) {
+      errors.push(`Наблюдение ${observation.id ?? field}: нет значения в поддерживаемых единицах`);
+      return;
+    }
+    if (field === HEIGHT_CODE) {
+      if (patient) patient.height = value;
+      return;
+    }
+
+    const date = new Date(observation.effectiveDateTime ?? '');
+    if (Number.isNaN(date.getTime())) {
+      errors.push(`Наблюдение ${observation.id ?? field}: нет даты измерения`);
+      return;
+    }
+    const id = asList(observation.identifier).find((identifier) => identifier.system === MEASUREMENT_ID_SYSTEM)?.value;
+    const key = id ?? date.toISOString();
+    const group = groups.get(key) ?? { date, id, values: {} };
+    setNestedValue(group.values, field, value);
+    if (field === 'bodyFatPercentage') {
+      group.method = asList(observation.method?.coding).find((coding) => coding.system === BODY_FAT_METHOD_SYSTEM)?.code;
+    }
+    groups.set(key, group);
+  });
+
+  // BMI is derived from the height sent with the bundle when it has one
+  const height = patient?.height ?? user.height;
+  const measurements: Measurement[] = [];
+  groups.forEach(({ date, id, values, method }) => {
+    const numbers = values as Partial<Measurement>;
+    const { weight, bodyFatPercentage, skeletalMuscleMass } = numbers;
+    const messages = Object.values(validateMeasurement({ ...numbers, date }));
+    if (method !== undefined && !isBodyFatMethod(method)) {
+      messages.push(`Неизвестный метод определения жира: "${method}"`);
+    }
+    if (messages.length > 0 || weight === undefined || bodyFatPercentage === undefined || skeletalMuscleMass === undefined) {
+      errors.push(`Измерение от ${date.toLocaleString('ru-RU')}: ${messages.join('; ')}`);
+      return;
+    }
+
+    // Values that follow from the others are derived as on manual entry;
+    // optional values the bundle lacks stay missing
+    measurements.push({
+      ...numbers,
+      id: id ?? uuidv4(),
+      userId: user.id,
+      date,
+      weight,
+      bodyFatMass: numbers.bodyFatMass ?? weight * (bodyFatPercentage / 100),
+      bodyFatPercentage,
+      skeletalMuscleMass,
+      bmi: numbers.bmi ?? calculateBMI(weight, height),
+      pbf: numbers.pbf ?? bodyFatPercentage,
+      ...(method ? { bodyFatMethod: method as BodyFatMethod } : {}),
+    });
+  });
+
+  return { patient, measurements, errors };
+};
+
+// Differences between the bundle's patient and the profile the measurements
+// are imported into, to be confirmed before importing. The profile itself is
+// left as it is.
+export const describePatientMismatch = (patient: Partial<User> | null, user: User): string[] => {
+  if (!patient) return [];
+  const mismatches: string[] = [];
+  if (patient.name && patient.name !== user.name) {
+    mismatches.push(`имя «${patient.name}» (в профиле «${user.name}»)`);
+  }
+  if (patient.age !== undefined && patient.age !== user.age) {
+    mismatches.push(`возраст ${patient.age} (в профиле ${user.age})`);
+  }
+  if (patient.height !== undefined && patient.height !== user.height) {
+    mismatches.push(`рост ${patient.height} см (в профиле ${user.height} см)`);
+  }
+  return mismatches;
+};
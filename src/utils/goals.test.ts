@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Goal, Measurement } from '../types';
+import { evaluateGoal } from './goals';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const now = new Date('2024-03-01T08:30:00.000Z');
+
+const measurement = (weight: number, bodyFatMass: number): Measurement => ({
+  id: 'm-1',
+  userId: 'user-1',
+  date: now,
+  weight,
+  bodyFatMass,
+  bodyFatPercentage: (bodyFatMass / weight) * 100,
+  skeletalMuscleMass: 30,
+  bmi: 26,
+  pbf: (bodyFatMass / weight) * 100,
+});
+
+const goal = (metric: Goal['metric'], startValue: number, targetValue: number, weeks: number): Goal => ({
+  id: 'goal-1',
+  metric,
+  startValue,
+  targetValue,
+  createdAt: now,
+  deadline: new Date(now.getTime() + weeks * WEEK_MS),
+});
+
+describe('evaluateGoal', () => {
+  it('warns when the weight has to drop faster than 1% a week', () => {
+    const measurements = [measurement(80, 20)];
+
+    const tooFast = evaluateGoal(goal('weight', 80, 76, 4), measurements, 175, now);
+    expect(tooFast.requiredWeeklyRate).toBe(-1);
+    expect(tooFast.warning).toContain('рекомендуется не больше 0.8 кг');
+
+    expect(evaluateGoal(goal('weight', 80, 76, 8), measurements, 175, now).warning).toBeNull();
+  });
+
+  it('limits fat mass loss relative to the body weight', () => {
+    const fatLoss = goal('bodyFatMass', 20, 16, 4);
+
+    expect(evaluateGoal(fatLoss, [measurement(80, 20)], 175, now).warning).toContain('не больше 0.8 кг');
+    expect(evaluateGoal(fatLoss, [measurement(120, 20)], 175, now).warning).toBeNull();
+  });
+
+  it('asks for a new deadline once it has passed', () => {
+    const result = evaluateGoal(goal('weight', 80, 76, -1), [measurement(80, 20)], 175, now);
+
+    expect(result.requiredWeeklyRate).toBeNull();
+    expect(result.warning).toBe('Срок цели истёк. Установите новую дату.');
+  });
+});
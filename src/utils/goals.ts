@@ -0,0 +1,157 @@
+import { Goal, Measurement } from '../types';
+import { ChartMetric, getMetricOption } from './metrics';
+import { calculateWeeklyTrend, getMetricSeries } from './trends';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type GoalDirection = 'decrease' | 'increase';
+
+interface RateLimit {
+  value: number;
+  // In % of the metric's current value or of the current body weight instead
+  // of the metric's unit
+  relative?: 'value' | 'weight';
+  description: string;
+}
+
+// Fastest change per week that is still sustainable. A body fat percentage
+// point a week is roughly fat loss of 1% of body weight.
+const WEEKLY_RATE_LIMITS: Partial<Record<ChartMetric, Partial<Record<GoalDirection, RateLimit>>>> = {
+  weight: {
+    decrease: { value: 1, relative: 'value', description: 'снижение веса не более 1% массы тела в неделю' },
+    increase: { value: 0.5, relative: 'value', description: 'набор веса не более 0,5% массы тела в неделю' },
+  },
+  bmi: {
+    decrease: { value: 1, relative: 'value', description: 'снижение веса не более 1% массы тела в неделю' },
+    increase: { value: 0.5, relative: 'value', description: 'набор веса не более 0,5% массы тела в неделю' },
+  },
+  bodyFatPercentage: {
+    decrease: { value: 1, description: 'потеря жира не более 1% массы тела в неделю' },
+  },
+  bodyFatMass: {
+    decrease: { value: 1, relative: 'weight', description: 'потеря жира не более 1% массы тела в неделю' },
+  },
+  skeletalMuscleMass: {
+    increase: { value: 0.25, description: 'прирост мышечной массы не более 1 кг в месяц' },
+  },
+  leanBodyMass: {
+    increase: { value: 0.5, description: 'прирост безжировой массы не более 2 кг в месяц' },
+  },
+};
+
+export interface GoalProgress {
+  goal: Goal;
+  direction: GoalDirection;
+  currentValue: number | null;
+  progress: number; // in %, from the start value to the target
+  achieved: boolean;
+  weeklyTrend: number | null; // change per week over the recent measurements
+  requiredWeeklyRate: number | null; // change per week still needed to meet the deadline
+  projectedDate: Date | null; // when the target is reached at the current trend
+  onTrack: boolean;
+  warning: string | null;
+}
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+export const getGoalDirection = (goal: Pick<Goal, 'startValue' | 'targetValue'>): GoalDirection =>
+  goal.targetValue < goal.startValue ? 'decrease' : 'increase';
+
+export const getCurrentValue = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  height: number
+): number | null => {
+  const series = getMetricSeries(measurements, metric, height);
+  return series[series.length - 1]?.value ?? null;
+};
+
+const formatRate = (value: number, unit: string) => `${round(Math.abs(value))}${unit ? ` ${unit}` : ''}`;
+
+// Returns a warning when the goal cannot be reached safely by its deadline
+const getRateWarning = (
+  goal: Goal,
+  direction: GoalDirection,
+  currentValue: number,
+  currentWeight: number | null,
+  requiredWeeklyRate: number | null
+): string | null => {
+  if (requiredWeeklyRate === null) {
+    return 'Срок цели истёк. Установите новую дату.';
+  }
+
+  const limit = WEEKLY_RATE_LIMITS[goal.metric]?.[direction];
+  if (!limit) return null;
+
+  const base = limit.relative === 'weight' ? currentWeight : currentValue;
+  if (base === null) return null;
+  const maxRate = limit.relative ? (base * limit.value) / 100 : limit.value;
+  if (Math.abs(requiredWeeklyRate) <= maxRate) return null;
+
+  const unit = getMetricOption(goal.metric)?.unit ?? '';
+  return (
+    `Нужный темп — ${formatRate(requiredWeeklyRate, unit)} в неделю, ` +
+    `рекомендуется не больше ${formatRate(maxRate, unit)} (${limit.description}). ` +
+    'Цель может быть нереалистичной, подумайте о более позднем сроке.'
+  );
+};
+
+export const evaluateGoal = (
+  goal: Goal,
+  measurements: Measurement[],
+  height: number,
+  now: Date = new Date()
+): GoalProgress => {
+  const direction = getGoalDirection(goal);
+  const series = getMetricSeries(measurements, goal.metric, height);
+  const lastPoint = series[series.length - 1];
+  const currentValue = lastPoint?.value ?? null;
+  const weeklyTrend = calculateWeeklyTrend(measurements, goal.metric, height);
+
+  const result: GoalProgress = {
+    goal,
+    direction,
+    currentValue,
+    progress: 0,
+    achieved: false,
+    weeklyTrend,
+    requiredWeeklyRate: null,
+    projectedDate: null,
+    onTrack: false,
+    warning: null,
+  };
+  if (!lastPoint || currentValue === null) return result;
+
+  const total = goal.targetValue - goal.startValue;
+  const done = currentValue - goal.startValue;
+  result.progress = total === 0 ? 100 : Math.round(Math.min(Math.max((done / total) * 100, 0), 100));
+  result.achieved =
+    direction === 'decrease' ? currentValue <= goal.targetValue : currentValue >= goal.targetValue;
+  if (result.achieved) {
+    result.progress = 100;
+    result.onTrack = true;
+    return result;
+  }
+
+  const remaining = goal.targetValue - currentValue;
+  const weeksLeft = (goal.deadline.getTime() - now.getTime()) / WEEK_MS;
+  result.requiredWeeklyRate = weeksLeft > 0 ? remaining / weeksLeft : null;
+  result.warning = getRateWarning(
+    goal,
+    direction,
+    currentValue,
+    getCurrentValue(measurements, 'weight', height),
+    result.requiredWeeklyRate
+  );
+
+  // A trend away from the target never reaches it
+  if (weeklyTrend !== null && weeklyTrend !== 0 && Math.sign(weeklyTrend) === Math.sign(remaining)) {
+    result.projectedDate = new Date(lastPoint.time + (remaining / weeklyTrend) * WEEK_MS);
+    result.onTrack = result.projectedDate.getTime() <= goal.deadline.getTime();
+  }
+
+  return result;
+};
+
+export const getGoalsForMetric = (goals: Goal[] | undefined, metric: ChartMetric): Goal[] =>
+  (goals ?? []).filter((goal) => goal.metric === metric);
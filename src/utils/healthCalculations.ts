@@ -1,14 +1,38 @@
-import { Measurement, User, HealthStatus, AnalysisResult } from '../types';
+import {
+  Measurement,
+  MeasurementNorms,
+  User,
+  HealthStatus,
+  AnalysisResult,
+  ReferencePopulation,
+} from '../types';
+import {
+  REFERENCE_POPULATION_LABELS,
+  SKELETAL_MUSCLE_NORMS,
+  SKELETAL_MUSCLE_SOURCE,
+  WAIST_TO_HEIGHT_NORMS,
+  WAIST_TO_HIP_NORMS,
+  formatRange,
+  getReferencePopulation,
+  resolveNorms,
+} from './norms';
+import { calculateWaistToHeightRatio, calculateWaistToHipRatio } from './bodyMeasurements';
+
+// Measured BMR within this share of the predicted value counts as expected
+const BMR_TOLERANCE = 0.1;
+
+// A metabolic age up to this many years above the actual age is only mildly elevated
+const METABOLIC_AGE_TOLERANCE = 5;
 
 export const calculateBMI = (weight: number, height: number): number => {
   const heightInMeters = height / 100;
   return parseFloat((weight / (heightInMeters * heightInMeters)).toFixed(1));
 };
 
-export const getBMIStatus = (bmi: number): HealthStatus => {
-  if (bmi < 18.5) return 'underweight';
-  if (bmi >= 18.5 && bmi < 25) return 'normal';
-  if (bmi >= 25 && bmi < 30) return 'overweight';
+export const getBMIStatus = (bmi: number, norms: MeasurementNorms): HealthStatus => {
+  if (bmi < norms.bmi.normal) return 'underweight';
+  if (bmi < norms.bmi.overweight) return 'normal';
+  if (bmi < norms.bmi.obese) return 'overweight';
   return 'obese';
 };
 
@@ -29,17 +53,13 @@ export const getBMIRecommendation = (status: HealthStatus): string => {
 
 export const getBodyFatStatus = (
   bodyFatPercentage: number,
-  gender: 'male' | 'female' | 'other'
+  population: ReferencePopulation,
+  norms: MeasurementNorms
 ): HealthStatus => {
-  if (gender === 'male') {
-    if (bodyFatPercentage < 8) return 'low';
-    if (bodyFatPercentage >= 8 && bodyFatPercentage <= 19) return 'normal';
-    return 'high';
-  } else {
-    if (bodyFatPercentage < 21) return 'low';
-    if (bodyFatPercentage >= 21 && bodyFatPercentage <= 33) return 'normal';
-    return 'high';
-  }
+  const ranges = norms.bodyFatPercentage[population];
+  if (bodyFatPercentage < ranges.normal) return 'low';
+  if (bodyFatPercentage < ranges.high) return 'normal';
+  return 'high';
 };
 
 export const getBodyFatRecommendation = (status: HealthStatus): string => {
@@ -55,9 +75,143 @@ export const getBodyFatRecommendation = (status: HealthStatus): string => {
   }
 };
 
-export const getVisceralFatStatus = (visceralFat: number): HealthStatus => {
-  if (visceralFat < 10) return 'normal';
-  if (visceralFat >= 10 && visceralFat <= 14) return 'high';
+export const getWaterStatus = (
+  waterPercentage: number,
+  population: ReferencePopulation,
+  norms: MeasurementNorms
+): HealthStatus => {
+  const ranges = norms.waterPercentage[population];
+  if (waterPercentage < ranges.normal) return 'low';
+  if (waterPercentage < ranges.high) return 'normal';
+  return 'high';
+};
+
+export const getWaterRecommendation = (status: HealthStatus): string => {
+  switch (status) {
+    case 'low':
+      return 'Доля воды в организме ниже нормы. Пейте достаточно воды в течение дня и проводите измерения в одинаковых условиях.';
+    case 'normal':
+      return 'Водный баланс в норме. Продолжайте поддерживать привычный питьевой режим.';
+    case 'high':
+      return 'Доля воды выше нормы. Это может быть связано с отеками или условиями измерения; при повторении проконсультируйтесь с врачом.';
+    default:
+      return '';
+  }
+};
+
+// Low if muscle is below the cut-off relative to either weight or height
+export const getSkeletalMuscleStatus = (
+  skeletalMuscleMass: number,
+  weight: number,
+  height: number,
+  population: ReferencePopulation
+): HealthStatus => {
+  const norms = SKELETAL_MUSCLE_NORMS[population];
+  const heightInMeters = height / 100;
+  const percentOfWeight = (skeletalMuscleMass / weight) * 100;
+  const indexPerHeight = skeletalMuscleMass / (heightInMeters * heightInMeters);
+
+  if (percentOfWeight < norms.percentOfWeight || indexPerHeight < norms.indexPerHeight) {
+    return 'low';
+  }
+  return 'normal';
+};
+
+export const getSkeletalMuscleRecommendation = (status: HealthStatus): string => {
+  switch (status) {
+    case 'low':
+      return 'Мышечная масса ниже нормы для вашего веса и роста. Добавьте силовые тренировки 2-3 раза в неделю и следите за достаточным потреблением белка.';
+    case 'normal':
+      return 'Мышечная масса в норме. Поддерживайте её регулярными силовыми нагрузками и полноценным питанием.';
+    default:
+      return '';
+  }
+};
+
+// Mifflin-St Jeor equation, kcal/day
+export const calculateBMRMifflinStJeor = (
+  weight: number,
+  height: number,
+  age: number,
+  population: ReferencePopulation
+): number => {
+  const base = 10 * weight + 6.25 * height - 5 * age;
+  return Math.round(population === 'male' ? base + 5 : base - 161);
+};
+
+// Katch-McArdle equation, based on lean body mass in kg, kcal/day
+export const calculateBMRKatchMcArdle = (leanBodyMass: number): number =>
+  Math.round(370 + 21.6 * leanBodyMass);
+
+export const getBMRStatus = (bmr: number, expected: number): HealthStatus => {
+  if (bmr < expected * (1 - BMR_TOLERANCE)) return 'low';
+  if (bmr > expected * (1 + BMR_TOLERANCE)) return 'high';
+  return 'normal';
+};
+
+export const getBMRRecommendation = (status: HealthStatus): string => {
+  switch (status) {
+    case 'low':
+      return 'Основной обмен ниже расчётного. Чаще всего это связано с недостатком мышечной массы или длительным дефицитом калорий; силовые тренировки помогают его повысить.';
+    case 'normal':
+      return 'Основной обмен соответствует расчётному для вашего состава тела.';
+    case 'high':
+      return 'Основной обмен выше расчётного, что обычно говорит о большой мышечной массе. Учитывайте это при планировании рациона.';
+    default:
+      return '';
+  }
+};
+
+export const getMetabolicAgeStatus = (metabolicAge: number, age: number): HealthStatus => {
+  if (metabolicAge <= age) return 'normal';
+  if (metabolicAge <= age + METABOLIC_AGE_TOLERANCE) return 'high';
+  return 'very-high';
+};
+
+export const getMetabolicAgeRecommendation = (status: HealthStatus): string => {
+  switch (status) {
+    case 'normal':
+      return 'Метаболический возраст не превышает фактический. Продолжайте вести активный образ жизни.';
+    case 'high':
+      return 'Метаболический возраст немного выше фактического. Увеличение мышечной массы и регулярная активность помогут его снизить.';
+    case 'very-high':
+      return 'Метаболический возраст значительно выше фактического. Рекомендуется пересмотреть питание и уровень физической активности, при необходимости с помощью специалиста.';
+    default:
+      return '';
+  }
+};
+
+export const getWaistToHipStatus = (ratio: number, population: ReferencePopulation): HealthStatus =>
+  ratio < WAIST_TO_HIP_NORMS[population].high ? 'normal' : 'high';
+
+export const getWaistToHeightStatus = (ratio: number): HealthStatus => {
+  if (ratio < WAIST_TO_HEIGHT_NORMS.normal) return 'low';
+  if (ratio < WAIST_TO_HEIGHT_NORMS.high) return 'normal';
+  if (ratio < WAIST_TO_HEIGHT_NORMS.veryHigh) return 'high';
+  return 'very-high';
+};
+
+export const getWaistRatioRecommendation = (status: HealthStatus): string => {
+  switch (status) {
+    case 'low':
+      return 'Обхват талии небольшой относительно роста. Убедитесь, что масса тела не ниже нормы.';
+    case 'normal':
+      return 'Распределение жира благоприятное. Продолжайте следить за обхватом талии.';
+    case 'high':
+      return 'Жир откладывается преимущественно в области живота, что повышает сердечно-сосудистые риски. Снижение обхвата талии даже на несколько сантиметров уменьшает риск.';
+    case 'very-high':
+      return 'Обхват талии значительно превышает норму для вашего роста. Рекомендуется обсудить с врачом снижение абдоминального жира.';
+    default:
+      return '';
+  }
+};
+
+export const getVisceralFatStatus = (
+  visceralFat: number,
+  norms: MeasurementNorms
+): HealthStatus => {
+  if (visceralFat < norms.visceralFat.high) return 'normal';
+  if (visceralFat < norms.visceralFat.veryHigh) return 'high';
   return 'very-high';
 };
 
@@ -79,44 +233,153 @@ export const generateAnalysis = (
   user: User
 ): AnalysisResult[] => {
   const analysis: AnalysisResult[] = [];
+  const { norms, bands } = resolveNorms(user);
+  const population = getReferencePopulation(user);
 
-  const bmiStatus = getBMIStatus(measurement.bmi);
+  const bmiStatus = getBMIStatus(measurement.bmi, norms);
   analysis.push({
     parameter: 'ИМТ (Индекс массы тела)',
     value: measurement.bmi,
     status: bmiStatus,
-    normalRange: '18.5 - 24.9',
+    normalRange: formatRange(norms.bmi.normal, norms.bmi.overweight),
     recommendation: getBMIRecommendation(bmiStatus),
   });
 
-  const bodyFatStatus = getBodyFatStatus(measurement.bodyFatPercentage, user.gender);
-  const normalRangeText =
-    user.gender === 'male' ? '8% - 19%' : '21% - 33%';
-  
+  const bodyFatStatus = getBodyFatStatus(measurement.bodyFatPercentage, population, norms);
+  const bodyFatRanges = norms.bodyFatPercentage[population];
+
   analysis.push({
     parameter: 'Процент жира в организме',
     value: measurement.bodyFatPercentage,
     status: bodyFatStatus,
-    normalRange: normalRangeText,
+    normalRange: formatRange(bodyFatRanges.normal, bodyFatRanges.high, '%'),
+    referenceBand: bands.bodyFatPercentage,
     recommendation: getBodyFatRecommendation(bodyFatStatus),
   });
 
-  const visceralFatStatus = getVisceralFatStatus(measurement.visceralFat);
+  // Water and visceral fat are optional in data entry and imports
+  if (measurement.waterPercentage !== undefined) {
+    const waterStatus = getWaterStatus(measurement.waterPercentage, population, norms);
+    const waterRanges = norms.waterPercentage[population];
+    analysis.push({
+      parameter: 'Процент воды в организме',
+      value: measurement.waterPercentage,
+      status: waterStatus,
+      normalRange: formatRange(waterRanges.normal, waterRanges.high, '%'),
+      referenceBand: bands.waterPercentage,
+      recommendation: getWaterRecommendation(waterStatus),
+    });
+  }
+
+  if (measurement.visceralFat !== undefined) {
+    const visceralFatStatus = getVisceralFatStatus(measurement.visceralFat, norms);
+    analysis.push({
+      parameter: 'Висцеральный жир',
+      value: measurement.visceralFat,
+      status: visceralFatStatus,
+      normalRange: `< ${norms.visceralFat.high}`,
+      referenceBand: bands.visceralFat,
+      recommendation: getVisceralFatRecommendation(visceralFatStatus),
+    });
+  }
+
+  const waistToHip = calculateWaistToHipRatio(measurement.girths);
+  if (waistToHip !== null) {
+    const waistToHipStatus = getWaistToHipStatus(waistToHip, population);
+    analysis.push({
+      parameter: 'Отношение талии к бёдрам',
+      value: waistToHip,
+      status: waistToHipStatus,
+      normalRange: `< ${WAIST_TO_HIP_NORMS[population].high}`,
+      referenceBand: `${REFERENCE_POPULATION_LABELS[population]} (ВОЗ, 2008)`,
+      recommendation: getWaistRatioRecommendation(waistToHipStatus),
+    });
+  }
+
+  const waistToHeight = calculateWaistToHeightRatio(measurement.girths, user.height);
+  if (waistToHeight !== null) {
+    const waistToHeightStatus = getWaistToHeightStatus(waistToHeight);
+    analysis.push({
+      parameter: 'Отношение талии к росту',
+      value: waistToHeight,
+      status: waistToHeightStatus,
+      normalRange: `${WAIST_TO_HEIGHT_NORMS.normal} - ${(WAIST_TO_HEIGHT_NORMS.high - 0.01).toFixed(2)}`,
+      recommendation: getWaistRatioRecommendation(waistToHeightStatus),
+    });
+  }
+
+  const muscleNorms = SKELETAL_MUSCLE_NORMS[population];
+  const muscleStatus = getSkeletalMuscleStatus(
+    measurement.skeletalMuscleMass,
+    measurement.weight,
+    user.height,
+    population
+  );
   analysis.push({
-    parameter: 'Висцеральный жир',
-    value: measurement.visceralFat,
-    status: visceralFatStatus,
-    normalRange: '< 10',
-    recommendation: getVisceralFatRecommendation(visceralFatStatus),
+    parameter: 'Скелетная мышечная масса',
+    value: measurement.skeletalMuscleMass,
+    status: muscleStatus,
+    normalRange: `≥ ${muscleNorms.percentOfWeight}% веса и ≥ ${muscleNorms.indexPerHeight} кг/м²`,
+    referenceBand: `${REFERENCE_POPULATION_LABELS[population]} (${SKELETAL_MUSCLE_SOURCE})`,
+    recommendation: getSkeletalMuscleRecommendation(muscleStatus),
   });
 
+  // BMR is optional in data entry
+  if (measurement.basalMetabolicRate !== undefined) {
+    const mifflin = calculateBMRMifflinStJeor(measurement.weight, user.height, user.age, population);
+    const katch = calculateBMRKatchMcArdle(measurement.weight - measurement.bodyFatMass);
+    const expected = (mifflin + katch) / 2;
+    const bmrStatus = getBMRStatus(measurement.basalMetabolicRate, expected);
+    analysis.push({
+      parameter: 'Основной обмен (ккал)',
+      value: measurement.basalMetabolicRate,
+      status: bmrStatus,
+      normalRange: `${Math.round(expected * (1 - BMR_TOLERANCE))} - ${Math.round(expected * (1 + BMR_TOLERANCE))}`,
+      referenceBand: `Расчёт: Mifflin-St Jeor ${mifflin} ккал, Katch-McArdle ${katch} ккал`,
+      recommendation: getBMRRecommendation(bmrStatus),
+    });
+  }
+
+  if (measurement.metabolicAge) {
+    const metabolicAgeStatus = getMetabolicAgeStatus(measurement.metabolicAge, user.age);
+    analysis.push({
+      parameter: 'Метаболический возраст',
+      value: measurement.metabolicAge,
+      status: metabolicAgeStatus,
+      normalRange: `≤ ${user.age}`,
+      recommendation: getMetabolicAgeRecommendation(metabolicAgeStatus),
+    });
+  }
+
   return analysis;
 };
 
-export const calculateIdealWeightRange = (height: number): { min: number; max: number } => {
+// The weight range that keeps BMI within the normal category
+export const calculateIdealWeightRange = (
+  height: number,
+  norms: MeasurementNorms
+): { min: number; max: number } => {
   const heightInMeters = height / 100;
-  const minWeight = parseFloat((18.5 * heightInMeters * heightInMeters).toFixed(1));
-  const maxWeight = parseFloat((24.9 * heightInMeters * heightInMeters).toFixed(1));
+  const minWeight = parseFloat((norms.bmi.normal * heightInMeters * heightInMeters).toFixed(1));
+  const maxWeight = parseFloat(((norms.bmi.overweight - 0.1) * heightInMeters * heightInMeters).toFixed(1));
   
   return { min: minWeight, max: maxWeight };
-};
\ No newline at end of file
+};
+
+export const getStatusLabel = (status: HealthStatus): string => {
+  switch (status) {
+    case 'normal':
+      return 'Норма';
+    case 'low':
+    case 'underweight':
+      return 'Ниже нормы';
+    case 'high':
+    case 'overweight':
+      return 'Выше нормы';
+    case 'obese':
+    case 'very-high':
+      return 'Значительно выше нормы';
+    default:
+      return 'Нет данных';
+  }
+};
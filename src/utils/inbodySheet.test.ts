@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { OcrLine, parseInBodySheet, toFormValues } from './inbodySheet';
+
+// Every word of a line gets the line's confidence
+const line = (text: string, confidence = 90): OcrLine => ({
+  text,
+  confidence,
+  words: text.split(/\s+/).map((word) => ({ text: word, confidence })),
+});
+
+const valuesOf = (lines: OcrLine[]) =>
+  Object.fromEntries(Object.entries(parseInBodySheet(lines)).map(([field, recognized]) => [field, recognized.value]));
+
+describe('parseInBodySheet', () => {
+  it('tells the body fat percentage from the fat mass', () => {
+    expect(
+      valuesOf([
+        line('Weight 72.4 kg 55.3 ~ 74.8'),
+        line('Body Fat Mass 18.1 kg 8.7 ~ 13.9'),
+        line('Percent Body Fat 25.0 % 10.0 ~ 20.0'),
+      ])
+    ).toEqual({ weight: 72.4, bodyFatMass: 18.1, bodyFatPercentage: 25 });
+
+    expect(valuesOf([line('PBF 25,0 %'), line('BFM 18,1 kg')])).toEqual({
+      bodyFatPercentage: 25,
+      bodyFatMass: 18.1,
+    });
+  });
+
+  it('skips the target weight and the weight control', () => {
+    expect(
+      valuesOf([line('Target Weight 65.1 kg'), line('Weight Control -7.3 kg'), line('Weight 72.4 kg')])
+    ).toEqual({ weight: 72.4 });
+  });
+
+  it('prefers the measured value to the scale of the bar graph', () => {
+    expect(valuesOf([line('Skeletal Muscle Mass 70 85 100 115 30.2 kg')])).toEqual({
+      skeletalMuscleMass: 30.2,
+    });
+    expect(valuesOf([line('Visceral Fat Level 7 Level 1 ~ 9')])).toEqual({ visceralFat: 7 });
+  });
+
+  it('lowers the confidence of a fat mass that disagrees with PBF', () => {
+    const sheet = parseInBodySheet([
+      line('Weight 72.4 kg'),
+      line('Body Fat Mass 28.1 kg'),
+      line('Percent Body Fat 25.0 %', 95),
+    ]);
+
+    expect(sheet.bodyFatMass?.confidence).toBe(40);
+    expect(sheet.bodyFatPercentage?.confidence).toBe(40);
+    expect(sheet.weight?.confidence).toBe(90);
+  });
+});
+
+describe('toFormValues', () => {
+  it('derives PBF and the water share from the weight', () => {
+    const { values } = toFormValues(
+      parseInBodySheet([line('Weight 72.4 kg'), line('Body Fat Mass 18.1 kg'), line('Total Body Water 39.6 L')])
+    );
+
+    expect(values).toEqual({ weight: 72.4, bodyFatMass: 18.1, bodyFatPercentage: 25, waterPercentage: 54.7 });
+  });
+});
@@ -0,0 +1,214 @@
+import { Measurement } from '../types';
+
+// One recognized line of the result sheet; confidences are 0-100 as
+// reported by the OCR engine
+export interface OcrWord {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+export type SheetField =
+  | 'weight'
+  | 'skeletalMuscleMass'
+  | 'bodyFatPercentage'
+  | 'bodyFatMass'
+  | 'visceralFat'
+  | 'basalMetabolicRate'
+  | 'totalBodyWater';
+
+export interface RecognizedValue {
+  value: number;
+  confidence: number;
+  line: string;
+}
+
+export type RecognizedSheet = Partial<Record<SheetField, RecognizedValue>>;
+
+export type FormField =
+  | 'weight'
+  | 'skeletalMuscleMass'
+  | 'bodyFatPercentage'
+  | 'bodyFatMass'
+  | 'visceralFat'
+  | 'waterPercentage'
+  | 'basalMetabolicRate';
+
+export interface SheetFormValues {
+  values: Partial<Pick<Measurement, FormField>>;
+  confidence: Partial<Record<FormField, number>>;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+interface SheetFieldDefinition {
+  // Labels as printed on English sheets, the only language the OCR model is
+  // loaded for; the value follows the label and the normal range follows it
+  label: RegExp;
+  min: number;
+  max: number;
+  integer?: boolean; // printed without decimals
+}
+
+// Order matters where labels overlap: "Percent Body Fat" has to be tried
+// before the fat mass, which would otherwise match its tail
+const SHEET_FIELDS: Record<SheetField, SheetFieldDefinition> = {
+  bodyFatPercentage: {
+    label: /percent\s*body\s*fat|\bPBF\b/i,
+    min: 2,
+    max: 70,
+  },
+  bodyFatMass: {
+    label: /(?<!percent\s)body\s*fat\s*mass|\bBFM\b/i,
+    min: 1,
+    max: 200,
+  },
+  skeletalMuscleMass: {
+    label: /skeletal\s*muscle\s*mass|\bSMM\b/i,
+    min: 5,
+    max: 80,
+  },
+  weight: {
+    // Not the target weight or the weight control of the same sheet
+    label: /(?<!target\s)(?<!ideal\s)\bweight\b(?!\s*control)/i,
+    min: 20,
+    max: 300,
+  },
+  visceralFat: {
+    label: /visceral\s*fat\s*level/i,
+    min: 1,
+    max: 30,
+    integer: true,
+  },
+  basalMetabolicRate: {
+    label: /basal\s*metabolic\s*rate|\bBMR\b/i,
+    min: 500,
+    max: 5000,
+  },
+  totalBodyWater: {
+    label: /total\s*body\s*water|\bTBW\b/i,
+    min: 10,
+    max: 100,
+  },
+};
+
+const NUMBER_PATTERN = /\d{1,4}(?:[.,]\d{1,2})?/g;
+
+// Allowed gap in kg between the printed fat mass and weight × PBF
+const FAT_MASS_TOLERANCE = 1;
+
+// Confidence of values that disagree with the rest of the sheet
+const INCONSISTENT_CONFIDENCE = 40;
+
+const HIGH_CONFIDENCE = 85;
+const MEDIUM_CONFIDENCE = 60;
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel =>
+  confidence >= HIGH_CONFIDENCE ? 'high' : confidence >= MEDIUM_CONFIDENCE ? 'medium' : 'low';
+
+// Measured values are printed with one decimal, while the scales of the
+// bar graphs are whole numbers, so a decimal value is preferred. Whole-number
+// fields take the first number after the label.
+const pickNumber = (text: string, definition: SheetFieldDefinition): string | undefined => {
+  const candidates = (text.match(NUMBER_PATTERN) ?? []).filter((candidate) => {
+    const value = parseFloat(candidate.replace(',', '.'));
+    return value >= definition.min && value <= definition.max;
+  });
+  if (definition.integer) return candidates.find((candidate) => !/[.,]/.test(candidate));
+  return candidates.find((candidate) => /[.,]/.test(candidate)) ?? candidates[0];
+};
+
+// The value's confidence is that of the word it was read from, which is more
+// telling than the line average
+const findValue = (line: OcrLine, definition: SheetFieldDefinition): RecognizedValue | null => {
+  const labelMatch = definition.label.exec(line.text);
+  if (!labelMatch) return null;
+
+  const number = pickNumber(line.text.slice(labelMatch.index + labelMatch[0].length), definition);
+  if (number === undefined) return null;
+
+  const word = line.words.find((w) => w.text.includes(number));
+  return {
+    value: parseFloat(number.replace(',', '.')),
+    confidence: Math.round(Math.min(line.confidence, word?.confidence ?? line.confidence)),
+    line: line.text.trim(),
+  };
+};
+
+const round = (value: number) => parseFloat(value.toFixed(1));
+
+// Takes the first plausible value for each field, top to bottom, so legends
+// and history graphs further down the sheet do not override the results
+export const parseInBodySheet = (lines: OcrLine[]): RecognizedSheet => {
+  const sheet: RecognizedSheet = {};
+
+  // A line holds one field at most
+  lines.forEach((line) => {
+    const fields = (Object.keys(SHEET_FIELDS) as SheetField[]).filter((field) => !sheet[field]);
+    for (const field of fields) {
+      const recognized = findValue(line, SHEET_FIELDS[field]);
+      if (recognized) {
+        sheet[field] = recognized;
+        break;
+      }
+    }
+  });
+
+  // Fat mass and PBF are printed separately, so they check each other
+  const { weight, bodyFatPercentage, bodyFatMass } = sheet;
+  if (weight && bodyFatPercentage && bodyFatMass) {
+    const expectedFatMass = (weight.value * bodyFatPercentage.value) / 100;
+    if (Math.abs(expectedFatMass - bodyFatMass.value) > FAT_MASS_TOLERANCE) {
+      bodyFatPercentage.confidence = Math.min(bodyFatPercentage.confidence, INCONSISTENT_CONFIDENCE);
+      bodyFatMass.confidence = Math.min(bodyFatMass.confidence, INCONSISTENT_CONFIDENCE);
+    }
+  }
+
+  return sheet;
+};
+
+// Maps the sheet onto the measurement form. Water is printed in litres and
+// stored as a share of weight (1 l ≈ 1 kg); PBF is derived from the fat mass
+// when only that was read, and the printed fat mass is kept as measured.
+export const toFormValues = (sheet: RecognizedSheet): SheetFormValues => {
+  const result: SheetFormValues = { values: {}, confidence: {} };
+  const set = (field: FormField, value: number, confidence: number) => {
+    result.values[field] = value;
+    result.confidence[field] = confidence;
+  };
+
+  const { weight, skeletalMuscleMass, bodyFatPercentage, bodyFatMass, visceralFat, basalMetabolicRate, totalBodyWater } =
+    sheet;
+
+  if (weight) set('weight', weight.value, weight.confidence);
+  if (skeletalMuscleMass) set('skeletalMuscleMass', skeletalMuscleMass.value, skeletalMuscleMass.confidence);
+  if (visceralFat) set('visceralFat', visceralFat.value, visceralFat.confidence);
+  if (basalMetabolicRate) set('basalMetabolicRate', Math.round(basalMetabolicRate.value), basalMetabolicRate.confidence);
+
+  if (bodyFatMass) set('bodyFatMass', bodyFatMass.value, bodyFatMass.confidence);
+
+  if (bodyFatPercentage) {
+    set('bodyFatPercentage', bodyFatPercentage.value, bodyFatPercentage.confidence);
+  } else if (bodyFatMass && weight) {
+    set(
+      'bodyFatPercentage',
+      round((bodyFatMass.value / weight.value) * 100),
+      Math.min(bodyFatMass.confidence, weight.confidence)
+    );
+  }
+
+  if (totalBodyWater && weight) {
+    set(
+      'waterPercentage',
+      round((totalBodyWater.value / weight.value) * 100),
+      Math.min(totalBodyWater.confidence, weight.confidence)
+    );
+  }
+
+  return result;
+};
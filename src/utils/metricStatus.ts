@@ -0,0 +1,113 @@
+import { HealthStatus, Measurement, User } from '../types';
+import {
+  calculateBMI,
+  calculateIdealWeightRange,
+  getBMIStatus,
+  getBodyFatStatus,
+  getSkeletalMuscleStatus,
+  getVisceralFatStatus,
+  getWaterStatus,
+} from './healthCalculations';
+import { getFFMIStatus, getFatMassIndexStatus } from './derivedMetrics';
+import { ChartMetric, getMetricValue } from './metrics';
+import {
+  BODY_COMPOSITION_INDEX_NORMS,
+  SKELETAL_MUSCLE_NORMS,
+  getReferencePopulation,
+  resolveNorms,
+} from './norms';
+
+// Healthy range of a metric for the user; `max` is exclusive and either
+// bound may be open
+export interface NormalRange {
+  min?: number;
+  max?: number;
+}
+
+export const STATUS_COLORS: Record<HealthStatus, string> = {
+  normal: 'rgb(34, 197, 94)',
+  low: 'rgb(59, 130, 246)',
+  underweight: 'rgb(59, 130, 246)',
+  high: 'rgb(245, 158, 11)',
+  overweight: 'rgb(245, 158, 11)',
+  obese: 'rgb(239, 68, 68)',
+  'very-high': 'rgb(239, 68, 68)',
+};
+
+// Null for metrics without an established reference range
+export const getNormalRange = (metric: ChartMetric, user: User): NormalRange | null => {
+  const { norms } = resolveNorms(user);
+  const population = getReferencePopulation(user);
+  const indexNorms = BODY_COMPOSITION_INDEX_NORMS[population];
+  const heightSquared = (user.height / 100) ** 2;
+
+  switch (metric) {
+    case 'weight':
+      return calculateIdealWeightRange(user.height, norms);
+    case 'bmi':
+      return { min: norms.bmi.normal, max: norms.bmi.overweight };
+    case 'bodyFatPercentage':
+      return {
+        min: norms.bodyFatPercentage[population].normal,
+        max: norms.bodyFatPercentage[population].high,
+      };
+    case 'waterPercentage':
+      return {
+        min: norms.waterPercentage[population].normal,
+        max: norms.waterPercentage[population].high,
+      };
+    case 'visceralFat':
+      return { max: norms.visceralFat.high };
+    // The weight-based cut-off changes with every measurement, so the band
+    // only shows the height-based one
+    case 'skeletalMuscleMass':
+      return { min: parseFloat((SKELETAL_MUSCLE_NORMS[population].indexPerHeight * heightSquared).toFixed(1)) };
+    case 'ffmi':
+    case 'normalizedFfmi':
+      return { min: indexNorms.ffmi.normal };
+    case 'fatMassIndex':
+      return { min: indexNorms.fatMassIndex.normal, max: indexNorms.fatMassIndex.high };
+    case 'skeletalMuscleIndex':
+      return { min: SKELETAL_MUSCLE_NORMS[population].indexPerHeight };
+    default:
+      return null;
+  }
+};
+
+// Status of one measurement's value, using the same thresholds as the analysis
+export const getMetricStatus = (
+  measurement: Measurement,
+  metric: ChartMetric,
+  user: User
+): HealthStatus | null => {
+  const value = getMetricValue(measurement, metric, user.height);
+  if (value === null) return null;
+
+  const { norms } = resolveNorms(user);
+  const population = getReferencePopulation(user);
+  const indexNorms = BODY_COMPOSITION_INDEX_NORMS[population];
+
+  switch (metric) {
+    case 'weight':
+      return getBMIStatus(calculateBMI(value, user.height), norms);
+    case 'bmi':
+      return getBMIStatus(value, norms);
+    case 'bodyFatPercentage':
+      return getBodyFatStatus(value, population, norms);
+    case 'waterPercentage':
+      return getWaterStatus(value, population, norms);
+    case 'visceralFat':
+      return getVisceralFatStatus(value, norms);
+    case 'skeletalMuscleMass':
+      return getSkeletalMuscleStatus(value, measurement.weight, user.height, population);
+    case 'ffmi':
+    case 'normalizedFfmi':
+      return getFFMIStatus(value, indexNorms.ffmi.normal);
+    case 'fatMassIndex':
+      return getFatMassIndexStatus(value, indexNorms.fatMassIndex);
+    case 'skeletalMuscleIndex':
+      return value < SKELETAL_MUSCLE_NORMS[population].indexPerHeight ? 'low' : 'normal';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,80 @@
+import { Girths, Measurement } from '../types';
+import { DerivedMetric, calculateDerivedMetrics, isDerivedMetric } from './derivedMetrics';
+import { GIRTH_FIELDS, GIRTH_LABELS } from './bodyMeasurements';
+
+// A girth, named like its CSV column
+export type GirthMetric = `girths.${keyof Girths}`;
+
+// A stored measurement field, a girth or an index derived from the
+// measurement and the user's height
+export type ChartMetric = keyof Measurement | DerivedMetric | GirthMetric;
+
+export interface MetricOption {
+  value: ChartMetric;
+  label: string;
+  unit: string;
+  color: string;
+}
+
+// Metrics that can be plotted over time
+export const METRIC_OPTIONS: MetricOption[] = [
+  { value: 'weight', label: 'Вес (кг)', unit: 'кг', color: 'rgb(59, 130, 246)' },
+  { value: 'bodyFatPercentage', label: 'Жировая масса (%)', unit: '%', color: 'rgb(239, 68, 68)' },
+  { value: 'skeletalMuscleMass', label: 'Мышечная масса (кг)', unit: 'кг', color: 'rgb(34, 197, 94)' },
+  { value: 'bmi', label: 'ИМТ', unit: 'кг/м²', color: 'rgb(168, 85, 247)' },
+  { value: 'visceralFat', label: 'Висцеральный жир', unit: '', color: 'rgb(245, 158, 11)' },
+  { value: 'waterPercentage', label: 'Вода (%)', unit: '%', color: 'rgb(20, 184, 166)' },
+  { value: 'leanBodyMass', label: 'Безжировая масса (кг)', unit: 'кг', color: 'rgb(14, 165, 233)' },
+  { value: 'ffmi', label: 'FFMI (кг/м²)', unit: 'кг/м²', color: 'rgb(16, 185, 129)' },
+  { value: 'normalizedFfmi', label: 'FFMI норм. (кг/м²)', unit: 'кг/м²', color: 'rgb(5, 150, 105)' },
+  { value: 'fatMassIndex', label: 'FMI (кг/м²)', unit: 'кг/м²', color: 'rgb(244, 63, 94)' },
+  { value: 'skeletalMuscleIndex', label: 'SMI (кг/м²)', unit: 'кг/м²', color: 'rgb(132, 204, 22)' },
+  { value: 'muscleToFatRatio', label: 'Мышцы / жир', unit: '', color: 'rgb(99, 102, 241)' },
+];
+
+// Further metrics a goal can be set for
+export const GOAL_METRIC_OPTIONS: MetricOption[] = [
+  ...METRIC_OPTIONS,
+  { value: 'bodyFatMass', label: 'Жировая масса (кг)', unit: 'кг', color: 'rgb(220, 38, 38)' },
+  { value: 'basalMetabolicRate', label: 'Основной обмен (ккал)', unit: 'ккал', color: 'rgb(234, 88, 12)' },
+  { value: 'metabolicAge', label: 'Метаболический возраст', unit: 'лет', color: 'rgb(202, 138, 4)' },
+  ...GIRTH_FIELDS.map((field) => ({
+    value: `girths.${field}` as const,
+    label: `Обхват: ${GIRTH_LABELS[field].toLowerCase()} (см)`,
+    unit: 'см',
+    color: 'rgb(100, 116, 139)',
+  })),
+];
+
+// Metrics that come from the body fat value and so depend on how it was measured
+const BODY_FAT_METRICS: ChartMetric[] = [
+  'bodyFatPercentage',
+  'bodyFatMass',
+  'pbf',
+  'leanBodyMass',
+  'ffmi',
+  'normalizedFfmi',
+  'fatMassIndex',
+  'muscleToFatRatio',
+];
+
+export const isBodyFatMetric = (metric: ChartMetric): boolean => BODY_FAT_METRICS.includes(metric);
+
+const isGirthMetric = (metric: ChartMetric): metric is GirthMetric => metric.startsWith('girths.');
+
+export const getMetricOption = (metric: ChartMetric): MetricOption | undefined =>
+  GOAL_METRIC_OPTIONS.find((option) => option.value === metric);
+
+// Returns null where a value is missing so charts show a gap instead of zero
+export const getMetricValue = (
+  measurement: Measurement,
+  metric: ChartMetric,
+  height: number
+): number | null => {
+  const value = isDerivedMetric(metric)
+    ? calculateDerivedMetrics(measurement, height)[metric]
+    : isGirthMetric(metric)
+      ? measurement.girths?.[metric.slice('girths.'.length) as keyof Girths]
+      : measurement[metric];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
@@ -1,8 +1,9 @@
 import { User, Measurement } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
+// Only used for the explicit demo mode, never as real data
 export const mockUser: User = {
-  id: '1',
+  id: 'demo',
   name: 'Александр Иванов',
   age: 32,
   gender: 'male',
@@ -0,0 +1,204 @@
+import { MeasurementNorms, NormsPresetId, ReferencePopulation, User } from '../types';
+
+type CategoryRange = MeasurementNorms['bodyFatPercentage']['male'];
+
+// Ranges for ages from `fromAge` up to and including `toAge`. Bands are
+// listed youngest first; the last one is open-ended.
+interface AgeBand<T> {
+  fromAge: number;
+  toAge?: number;
+  ranges: T;
+}
+
+// Age-banded ranges for both reference populations, with their source
+interface BandedTable<T> {
+  source: string;
+  male: AgeBand<T>[];
+  female: AgeBand<T>[];
+}
+
+export interface NormsPreset {
+  id: NormsPresetId;
+  name: string;
+  description: string;
+  bmi: MeasurementNorms['bmi'];
+  bodyFatPercentage: BandedTable<CategoryRange>;
+  waterPercentage: BandedTable<CategoryRange>;
+  visceralFat: BandedTable<MeasurementNorms['visceralFat']>;
+}
+
+// Healthy body fat for adults (Gallagher et al., 2000); people under 20 use
+// the youngest band
+const GALLAGHER_BODY_FAT: BandedTable<CategoryRange> = {
+  source: 'Gallagher и соавт., 2000',
+  male: [
+    { fromAge: 20, toAge: 39, ranges: { low: 0, normal: 8, high: 20 } },
+    { fromAge: 40, toAge: 59, ranges: { low: 0, normal: 11, high: 22 } },
+    { fromAge: 60, ranges: { low: 0, normal: 13, high: 25 } },
+  ],
+  female: [
+    { fromAge: 20, toAge: 39, ranges: { low: 0, normal: 21, high: 33 } },
+    { fromAge: 40, toAge: 59, ranges: { low: 0, normal: 23, high: 34 } },
+    { fromAge: 60, ranges: { low: 0, normal: 24, high: 36 } },
+  ],
+};
+
+// Adult ranges as published by Tanita. There is no published age-specific
+// table, so every preset uses them for all ages.
+const BODY_WATER: BandedTable<CategoryRange> = {
+  source: 'Tanita',
+  male: [{ fromAge: 0, ranges: { low: 0, normal: 50, high: 65 } }],
+  female: [{ fromAge: 0, ranges: { low: 0, normal: 45, high: 60 } }],
+};
+
+// The level scale printed on InBody sheets; it is the same for all ages
+const VISCERAL_FAT_LEVELS: BandedTable<MeasurementNorms['visceralFat']> = {
+  source: 'шкала уровней InBody',
+  male: [{ fromAge: 0, ranges: { normal: 1, high: 10, veryHigh: 15 } }],
+  female: [{ fromAge: 0, ranges: { normal: 1, high: 10, veryHigh: 15 } }],
+};
+
+export const NORMS_PRESETS: Record<NormsPresetId, NormsPreset> = {
+  who: {
+    id: 'who',
+    name: 'ВОЗ',
+    description: 'Классификация ИМТ ВОЗ, диапазоны жира по Gallagher и соавт.',
+    bmi: { underweight: 0, normal: 18.5, overweight: 25, obese: 30 },
+    bodyFatPercentage: GALLAGHER_BODY_FAT,
+    waterPercentage: BODY_WATER,
+    visceralFat: VISCERAL_FAT_LEVELS,
+  },
+  asian: {
+    id: 'asian',
+    name: 'ВОЗ для азиатского населения',
+    description: 'Пониженные пороги ИМТ экспертной группы ВОЗ (2004) для жителей Азии.',
+    bmi: { underweight: 0, normal: 18.5, overweight: 23, obese: 27.5 },
+    bodyFatPercentage: GALLAGHER_BODY_FAT,
+    waterPercentage: BODY_WATER,
+    visceralFat: VISCERAL_FAT_LEVELS,
+  },
+  inbody: {
+    id: 'inbody',
+    name: 'InBody',
+    description: 'Стандартные диапазоны, которые печатаются на бланке InBody.',
+    bmi: { underweight: 0, normal: 18.5, overweight: 25, obese: 30 },
+    bodyFatPercentage: {
+      source: 'бланк InBody',
+      male: [{ fromAge: 0, ranges: { low: 0, normal: 10, high: 20 } }],
+      female: [{ fromAge: 0, ranges: { low: 0, normal: 18, high: 28 } }],
+    },
+    waterPercentage: BODY_WATER,
+    visceralFat: VISCERAL_FAT_LEVELS,
+  },
+};
+
+// Lowest normal skeletal muscle mass relative to body weight, in % (Janssen
+// et al., 2002) and to height, in kg/m² (Janssen et al., 2004). They do not
+// depend on the preset.
+export const SKELETAL_MUSCLE_NORMS: Record<
+  ReferencePopulation,
+  { percentOfWeight: number; indexPerHeight: number }
+> = {
+  male: { percentOfWeight: 37, indexPerHeight: 10.76 },
+  female: { percentOfWeight: 27.6, indexPerHeight: 6.76 },
+};
+
+export const SKELETAL_MUSCLE_SOURCE = 'Janssen и соавт., 2002 и 2004';
+
+// Lower bounds of the categories for indices derived from body composition,
+// in kg/m². FFMI below `normal` is low fat-free mass (GLIM criteria, 2019);
+// fat mass index categories follow Kelly et al., 2009.
+export const BODY_COMPOSITION_INDEX_NORMS: Record<
+  ReferencePopulation,
+  {
+    ffmi: { normal: number };
+    fatMassIndex: { normal: number; high: number; obese: number };
+  }
+> = {
+  male: { ffmi: { normal: 17 }, fatMassIndex: { normal: 3, high: 6, obese: 9 } },
+  female: { ffmi: { normal: 15 }, fatMassIndex: { normal: 5, high: 9, obese: 13 } },
+};
+
+export const BODY_COMPOSITION_INDEX_SOURCES = {
+  ffmi: 'GLIM, 2019',
+  fatMassIndex: 'Kelly и соавт., 2009',
+  skeletalMuscleIndex: 'Janssen и соавт., 2004',
+};
+
+// Waist-to-hip ratio from which cardiometabolic risk is substantially
+// increased (WHO, 2008)
+export const WAIST_TO_HIP_NORMS: Record<ReferencePopulation, { high: number }> = {
+  male: { high: 0.9 },
+  female: { high: 0.85 },
+};
+
+// Lower bounds of the waist-to-height ratio categories (Ashwell, 2012)
+export const WAIST_TO_HEIGHT_NORMS = { normal: 0.4, high: 0.5, veryHigh: 0.6 };
+
+export const DEFAULT_NORMS_PRESET: NormsPresetId = 'who';
+
+export const REFERENCE_POPULATION_LABELS: Record<ReferencePopulation, string> = {
+  male: 'Мужчины',
+  female: 'Женщины',
+};
+
+export const getNormsPreset = (id?: NormsPresetId): NormsPreset =>
+  NORMS_PRESETS[id ?? DEFAULT_NORMS_PRESET] ?? NORMS_PRESETS[DEFAULT_NORMS_PRESET];
+
+// Profiles with gender 'other' choose the population explicitly; older
+// profiles without a choice keep the female ranges they were rated with
+export const getReferencePopulation = (user: User): ReferencePopulation =>
+  user.gender === 'other' ? user.referencePopulation ?? 'female' : user.gender;
+
+const findBand = <T>(bands: AgeBand<T>[], age: number): AgeBand<T> =>
+  bands.find((band) => band.toAge === undefined || age <= band.toAge) ?? bands[bands.length - 1];
+
+const formatAgeBand = (band: AgeBand<unknown>): string => {
+  if (band.toAge !== undefined) return `${band.fromAge}–${band.toAge} лет`;
+  return band.fromAge > 0 ? `от ${band.fromAge} лет` : 'без учета возраста';
+};
+
+const describeBand = <T>(table: BandedTable<T>, population: ReferencePopulation, age: number) =>
+  `${REFERENCE_POPULATION_LABELS[population]}, ${formatAgeBand(findBand(table[population], age))} (${table.source})`;
+
+export type BandedParameter = 'bodyFatPercentage' | 'waterPercentage' | 'visceralFat';
+
+export interface ResolvedNorms {
+  norms: MeasurementNorms;
+  // Human-readable band each banded parameter was taken from
+  bands: Record<BandedParameter, string>;
+}
+
+// Picks the ranges for the user's age from the preset. Ranges for both
+// populations are resolved so they can be shown side by side.
+export const resolveNorms = (user: User): ResolvedNorms => {
+  const preset = getNormsPreset(user.normsPreset);
+  const population = getReferencePopulation(user);
+  const { age } = user;
+
+  return {
+    norms: {
+      bmi: preset.bmi,
+      bodyFatPercentage: {
+        male: findBand(preset.bodyFatPercentage.male, age).ranges,
+        female: findBand(preset.bodyFatPercentage.female, age).ranges,
+      },
+      waterPercentage: {
+        male: findBand(preset.waterPercentage.male, age).ranges,
+        female: findBand(preset.waterPercentage.female, age).ranges,
+      },
+      visceralFat: findBand(preset.visceralFat[population], age).ranges,
+    },
+    bands: {
+      bodyFatPercentage: describeBand(preset.bodyFatPercentage, population, age),
+      waterPercentage: describeBand(preset.waterPercentage, population, age),
+      visceralFat: describeBand(preset.visceralFat, population, age),
+    },
+  };
+};
+
+export const getUserNorms = (user: User): MeasurementNorms => resolveNorms(user).norms;
+
+// Upper bounds are exclusive, so they are shown one step lower: 18.5 - 24.9
+export const formatRange = (min: number, max: number, unit = ''): string =>
+  `${min}${unit} - ${parseFloat((max - 0.1).toFixed(1))}${unit}`;
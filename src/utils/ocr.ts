@@ -0,0 +1,77 @@
+import { OEM, createWorker } from 'tesseract.js';
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+// The OCR engine, its model and the PDF renderer are served with the app,
+// so sheets never leave the browser
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { OcrLine } from './inbodySheet';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Progress from 0 to 1 with a description of the current step
+export type OcrProgressHandler = (status: string, progress: number) => void;
+
+// PDF pages are rendered at about 300 dpi, which the OCR model expects
+const PDF_RENDER_SCALE = 300 / 72;
+
+// Tesseract looks the model up as `<langPath>/eng.traineddata.gz`; the build
+// keeps that file name (see vite.config.ts)
+const LANG_PATH = englishDataUrl.slice(0, englishDataUrl.lastIndexOf('/'));
+
+const OCR_STATUS_LABELS: Record<string, string> = {
+  'loading tesseract core': 'Загрузка модуля распознавания',
+  'loading language traineddata': 'Загрузка языковой модели',
+  'initializing api': 'Подготовка',
+  'recognizing text': 'Распознавание текста',
+};
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+// Result sheets fit on one page, so only the first one is read
+const renderFirstPdfPage = async (file: File): Promise<HTMLCanvasElement> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Не удалось подготовить страницу PDF');
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Reads a photo, scan or PDF of a result sheet into text lines with the
+// engine's confidence for every line and word
+export const recognizeSheet = async (file: File, onProgress?: OcrProgressHandler): Promise<OcrLine[]> => {
+  onProgress?.('Подготовка', 0);
+  const image = isPdfFile(file) ? await renderFirstPdfPage(file) : file;
+
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: tesseractWorkerUrl,
+    corePath: tesseractCoreUrl,
+    langPath: LANG_PATH,
+    // The model is bundled, a second copy in IndexedDB is not needed
+    cacheMethod: 'none',
+    logger: (message) => onProgress?.(OCR_STATUS_LABELS[message.status] ?? message.status, message.progress),
+  });
+
+  try {
+    const { data } = await worker.recognize(image);
+    return data.lines.map((line) => ({
+      text: line.text,
+      confidence: line.confidence,
+      words: line.words.map((word) => ({ text: word.text, confidence: word.confidence })),
+    }));
+  } finally {
+    await worker.terminate();
+  }
+};
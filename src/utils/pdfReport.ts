@@ -0,0 +1,283 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  Chart as ChartJS,
+  LineController,
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler,
+} from 'chart.js';
+import dejavuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejavuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import { Measurement, User } from '../types';
+import {
+  calculateIdealWeightRange,
+  generateAnalysis,
+  getStatusLabel,
+} from './healthCalculations';
+import { buildChartData, buildChartOptions } from './chartConfig';
+import { filterByDateRange, sortByDate } from './dateRange';
+import { ChartMetric, METRIC_OPTIONS } from './metrics';
+import { getUserNorms } from './norms';
+
+ChartJS.register(
+  LineController,
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  Filler
+);
+
+export interface PDFReportOptions {
+  user: User;
+  measurements: Measurement[];
+  from?: Date;
+  to?: Date;
+}
+
+const FONT_NAME = 'DejaVuSans';
+const PAGE_MARGIN = 15;
+// Charts are always rendered at the same pixel size so the report
+// does not depend on the viewer's screen or zoom level
+const CHART_WIDTH = 1200;
+const CHART_HEIGHT = 600;
+
+const GENDER_LABELS: Record<User['gender'], string> = {
+  male: 'Мужской',
+  female: 'Женский',
+  other: 'Другой',
+};
+
+const formatDate = (date: Date) => {
+  return new Date(date).toLocaleDateString('ru-RU', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// The built-in PDF fonts have no Cyrillic glyphs, so a bundled TTF is embedded
+const registerFonts = async (doc: jsPDF) => {
+  const fonts = [
+    { url: dejavuSansUrl, file: 'DejaVuSans.ttf', style: 'normal' },
+    { url: dejavuSansBoldUrl, file: 'DejaVuSans-Bold.ttf', style: 'bold' },
+  ];
+
+  for (const font of fonts) {
+    const response = await fetch(font.url);
+    const base64 = arrayBufferToBase64(await response.arrayBuffer());
+    doc.addFileToVFS(font.file, base64);
+    doc.addFont(font.file, FONT_NAME, font.style);
+  }
+  doc.setFont(FONT_NAME, 'normal');
+};
+
+const renderChartImage = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  label: string,
+  color: string,
+  user: User
+): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CHART_WIDTH;
+  canvas.height = CHART_HEIGHT;
+
+  const chart = new ChartJS(canvas, {
+    type: 'line',
+    data: buildChartData(measurements, metric, label, color, user.height, { goals: user.goals, user }),
+    options: {
+      ...buildChartOptions(),
+      responsive: false,
+      animation: false,
+      devicePixelRatio: 1,
+    },
+  });
+  const image = chart.toBase64Image('image/png', 1);
+  chart.destroy();
+
+  return image;
+};
+
+const getFinalY = (doc: jsPDF): number =>
+  (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+export const generatePDFReport = async ({
+  user,
+  measurements,
+  from,
+  to,
+}: PDFReportOptions): Promise<jsPDF> => {
+  const selected = sortByDate(filterByDateRange(measurements, from, to));
+  if (selected.length === 0) {
+    throw new Error('Нет измерений за выбранный период');
+  }
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  await registerFonts(doc);
+
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const tableStyles = { font: FONT_NAME, fontSize: 9 };
+  const headStyles = { fillColor: [37, 99, 235] as [number, number, number], fontStyle: 'bold' as const };
+
+  const latest = selected[selected.length - 1];
+  const periodStart = from ?? selected[0].date;
+  const periodEnd = to ?? latest.date;
+
+  // Title
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(18);
+  doc.text('Отчёт о составе тела InBody', PAGE_MARGIN, 20);
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    `Период: ${formatDate(periodStart)} — ${formatDate(periodEnd)}. Сформирован: ${formatDate(new Date())}`,
+    PAGE_MARGIN,
+    27
+  );
+
+  // Profile
+  autoTable(doc, {
+    startY: 33,
+    head: [['Профиль', '']],
+    body: [
+      ['Имя', user.name],
+      ['Возраст', `${user.age} лет`],
+      ['Пол', GENDER_LABELS[user.gender]],
+      ['Рост', `${user.height} см`],
+      ['Email', user.email || '—'],
+    ],
+    styles: tableStyles,
+    headStyles,
+    columnStyles: { 0: { cellWidth: 50 } },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  // Ideal weight range
+  const idealWeightRange = calculateIdealWeightRange(user.height, getUserNorms(user));
+  let y = getFinalY(doc) + 8;
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(12);
+  doc.text('Идеальный диапазон веса', PAGE_MARGIN, y);
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    `На основе роста ${user.height} см: от ${idealWeightRange.min} до ${idealWeightRange.max} кг.`,
+    PAGE_MARGIN,
+    y + 6
+  );
+
+  // Analysis of the latest measurement in the period
+  y += 14;
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(12);
+  doc.text(`Анализ и рекомендации (${formatDate(latest.date)})`, PAGE_MARGIN, y);
+  autoTable(doc, {
+    startY: y + 3,
+    head: [['Показатель', 'Значение', 'Статус', 'Норма', 'Рекомендация']],
+    body: generateAnalysis(latest, user).map((result) => [
+      result.parameter,
+      String(result.value),
+      getStatusLabel(result.status),
+      result.referenceBand ? `${result.normalRange}\n${result.referenceBand}` : result.normalRange,
+      result.recommendation,
+    ]),
+    styles: tableStyles,
+    headStyles,
+    columnStyles: { 0: { cellWidth: 35 }, 4: { cellWidth: 75 } },
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  // Charts, two per page
+  const chartHeight = (contentWidth * CHART_HEIGHT) / CHART_WIDTH;
+  METRIC_OPTIONS.forEach((option, index) => {
+    if (index % 2 === 0) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFont(FONT_NAME, 'bold');
+    doc.setFontSize(12);
+    doc.text(option.label, PAGE_MARGIN, y);
+    const image = renderChartImage(
+      selected,
+      option.value,
+      option.label,
+      option.color,
+      user
+    );
+    doc.addImage(image, 'PNG', PAGE_MARGIN, y + 4, contentWidth, chartHeight);
+    y += chartHeight + 20;
+  });
+
+  // Full measurement history
+  doc.addPage();
+  doc.setFont(FONT_NAME, 'bold');
+  doc.setFontSize(12);
+  doc.text('История измерений', PAGE_MARGIN, 20);
+  autoTable(doc, {
+    startY: 24,
+    head: [[
+      'Дата',
+      'Вес (кг)',
+      'Жир (кг)',
+      'Жир (%)',
+      'Мышцы (кг)',
+      'ИМТ',
+      'Висц. жир',
+      'Вода (%)',
+      'BMR (ккал)',
+      'Мет. возраст',
+    ]],
+    body: [...selected].reverse().map((m) => [
+      m.date.toLocaleDateString('ru-RU'),
+      m.weight,
+      parseFloat(m.bodyFatMass.toFixed(1)),
+      m.bodyFatPercentage,
+      m.skeletalMuscleMass,
+      m.bmi,
+      m.visceralFat ?? '—',
+      m.waterPercentage ?? '—',
+      m.basalMetabolicRate ?? '—',
+      m.metabolicAge ?? '—',
+    ]),
+    styles: { ...tableStyles, fontSize: 8 },
+    headStyles,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+  });
+
+  // Page numbers
+  const pageCount = doc.getNumberOfPages();
+  doc.setFont(FONT_NAME, 'normal');
+  doc.setFontSize(8);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(
+      `Страница ${page} из ${pageCount}`,
+      pageWidth - PAGE_MARGIN,
+      doc.internal.pageSize.getHeight() - 8,
+      { align: 'right' }
+    );
+  }
+
+  return doc;
+};
@@ -0,0 +1,371 @@
+import { Measurement, User } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiClient, createApiClient } from './apiClient';
+import {
+  loadActiveUserId,
+  loadMeasurements,
+  loadUsers,
+  clearUnmeasuredZeros,
+  reviveAll,
+  reviveMeasurement,
+  reviveUser,
+} from './storage';
+
+export type EntityType = 'user' | 'measurement';
+
+// A local change that has not been pushed to a backend yet. Measurement
+// deletions keep the deleted record as payload so its owner is known.
+export interface OutboxEntry {
+  id: string;
+  entity: EntityType;
+  operation: 'upsert' | 'delete';
+  entityId: string;
+  payload?: User | Measurement;
+  createdAt: Date;
+}
+
+export interface Repository {
+  getUsers(): Promise<User[]>;
+  saveUser(user: User): Promise<void>;
+  // Also removes all measurements of the user
+  deleteUser(id: string): Promise<void>;
+  getMeasurements(userId: string): Promise<Measurement[]>;
+  saveMeasurements(measurements: Measurement[]): Promise<void>;
+  deleteMeasurement(measurement: Measurement): Promise<void>;
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting<T>(key: string, value: T): Promise<void>;
+  getOutbox(): Promise<OutboxEntry[]>;
+  removeFromOutbox(ids: string[]): Promise<void>;
+}
+
+export type StorageMode = 'local' | 'remote';
+
+export const ACTIVE_USER_SETTING = 'activeUserId';
+const STORAGE_MODE_KEY = 'storageMode';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+const MIGRATED_SETTING = 'migratedFromLocalStorage';
+
+const DB_NAME = 'inbody-analysis';
+// Bump when the stores or the shape of stored records change and add an
+// upgrade step below
+const DB_VERSION = 3;
+
+const createOutboxEntry = (
+  entity: EntityType,
+  operation: OutboxEntry['operation'],
+  entityId: string,
+  payload?: User | Measurement
+): OutboxEntry => ({
+  id: uuidv4(),
+  entity,
+  operation,
+  entityId,
+  payload,
+  createdAt: new Date(),
+});
+
+// Only the latest change of a record is queued. It takes the place of the
+// first one, so a profile still reaches the backend before its measurements.
+// Queued measurement changes of a deleted profile are dropped with it.
+const mergeIntoOutbox = (queued: OutboxEntry[], entry: OutboxEntry) => {
+  const isSameRecord = (q: OutboxEntry) => q.entity === entry.entity && q.entityId === entry.entityId;
+  const isOfDeletedUser = (q: OutboxEntry) =>
+    entry.entity === 'user' &&
+    entry.operation === 'delete' &&
+    q.entity === 'measurement' &&
+    (q.payload as Measurement | undefined)?.userId === entry.entityId;
+
+  const previous = queued.find(isSameRecord);
+  return {
+    previous,
+    stale: queued.filter((q) => isSameRecord(q) || isOfDeletedUser(q)).map((q) => q.id),
+    entry: previous ? { ...entry, createdAt: previous.createdAt } : entry,
+  };
+};
+
+// Adds a change to an outbox that is kept in order
+const appendToOutbox = (queued: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => {
+  const { previous, stale, entry: merged } = mergeIntoOutbox(queued, entry);
+  const kept = queued.flatMap((q) => (q === previous ? [merged] : stale.includes(q.id) ? [] : [q]));
+  return previous ? kept : [...kept, merged];
+};
+
+export const getStorageErrorMessage = (error: unknown): string =>
+  error instanceof Error && error.message ? error.message : 'Не удалось сохранить данные';
+
+// In-memory implementation, used when IndexedDB is unavailable and in tests
+export const createMemoryRepository = (): Repository => {
+  const users = new Map<string, User>();
+  const measurements = new Map<string, Measurement>();
+  const settings = new Map<string, unknown>();
+  let outbox: OutboxEntry[] = [];
+
+  const enqueue = (entry: OutboxEntry) => {
+    outbox = appendToOutbox(outbox, entry);
+  };
+
+  return {
+    getUsers: async () => [...users.values()],
+    saveUser: async (user) => {
+      users.set(user.id, user);
+      enqueue(createOutboxEntry('user', 'upsert', user.id, user));
+    },
+    deleteUser: async (id) => {
+      users.delete(id);
+      [...measurements.values()]
+        .filter((m) => m.userId === id)
+        .forEach((m) => measurements.delete(m.id));
+      enqueue(createOutboxEntry('user', 'delete', id));
+    },
+    getMeasurements: async (userId) =>
+      [...measurements.values()].filter((m) => m.userId === userId),
+    saveMeasurements: async (items) => {
+      items.forEach((m) => {
+        measurements.set(m.id, m);
+        enqueue(createOutboxEntry('measurement', 'upsert', m.id, m));
+      });
+    },
+    deleteMeasurement: async (measurement) => {
+      measurements.delete(measurement.id);
+      enqueue(createOutboxEntry('measurement', 'delete', measurement.id, measurement));
+    },
+    getSetting: async <T>(key: string) => settings.get(key) as T | undefined,
+    setSetting: async (key, value) => {
+      settings.set(key, value);
+    },
+    getOutbox: async () => [...outbox],
+    removeFromOutbox: async (ids) => {
+      outbox = outbox.filter((entry) => !ids.includes(entry.id));
+    },
+  };
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+type DatabaseUpgrade = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// databaseUpgrades[n] upgrades the database from version n to n + 1
+const databaseUpgrades: Record<number, DatabaseUpgrade> = {
+  0: (db) => {
+    db.createObjectStore('users', { keyPath: 'id' });
+    const measurementStore = db.createObjectStore('measurements', { keyPath: 'id' });
+    measurementStore.createIndex('userId', 'userId');
+    db.createObjectStore('settings');
+    const outboxStore = db.createObjectStore('outbox', { keyPath: 'id' });
+    outboxStore.createIndex('createdAt', 'createdAt');
+  },
+  // v1 queued every change; only the latest one of each record is kept now
+  1: (_, transaction) => {
+    const outboxStore = transaction.objectStore('outbox');
+    const request = outboxStore.index('createdAt').getAll();
+    request.onsuccess = () => {
+      const collapsed = (request.result as OutboxEntry[]).reduce(appendToOutbox, []);
+      outboxStore.clear();
+      collapsed.forEach((entry) => outboxStore.put(entry));
+    };
+  },
+  // v2 stored optional values that were not measured as 0
+  2: (_, transaction) => {
+    const request = transaction.objectStore('measurements').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.update(clearUnmeasuredZeros(cursor.value));
+      cursor.continue();
+    };
+  },
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        databaseUpgrades[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB implementation. Every change is written to the outbox in the same
+// transaction, so a pending sync can never miss a committed change.
+export const createIndexedDBRepository = (): Repository => {
+  const dbPromise = openDatabase();
+
+  const run = async (
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void
+  ) => {
+    const db = await dbPromise;
+    const transaction = db.transaction(storeNames, mode);
+    work(transaction);
+    await transactionDone(transaction);
+  };
+
+  const read = async <T>(storeName: string, query: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await dbPromise;
+    return promisifyRequest(query(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  };
+
+  const enqueue = (transaction: IDBTransaction, entries: OutboxEntry[]) => {
+    const outboxStore = transaction.objectStore('outbox');
+    const request = outboxStore.getAll();
+    request.onsuccess = () => {
+      let queued: OutboxEntry[] = request.result;
+      entries.forEach((entry) => {
+        const { stale, entry: merged } = mergeIntoOutbox(queued, entry);
+        stale.forEach((id) => outboxStore.delete(id));
+        outboxStore.put(merged);
+        queued = [...queued.filter((q) => !stale.includes(q.id)), merged];
+      });
+    };
+  };
+
+  return {
+    getUsers: async () =>
+      reviveAll('users', await read<unknown[]>('users', (store) => store.getAll()), reviveUser),
+    saveUser: (user) =>
+      run(['users', 'outbox'], 'readwrite', (transaction) => {
+        transaction.objectStore('users').put(user);
+        enqueue(transaction, [createOutboxEntry('user', 'upsert', user.id, user)]);
+      }),
+    deleteUser: (id) =>
+      run(['users', 'measurements', 'outbox'], 'readwrite', (transaction) => {
+        transaction.objectStore('users').delete(id);
+        const measurementStore = transaction.objectStore('measurements');
+        const keysRequest = measurementStore.index('userId').getAllKeys(id);
+        keysRequest.onsuccess = () => {
+          keysRequest.result.forEach((key) => measurementStore.delete(key));
+        };
+        enqueue(transaction, [createOutboxEntry('user', 'delete', id)]);
+      }),
+    getMeasurements: async (userId) =>
+      reviveAll(
+        'measurements',
+        await read<unknown[]>('measurements', (store) => store.index('userId').getAll(userId)),
+        reviveMeasurement
+      ),
+    saveMeasurements: (items) =>
+      run(['measurements', 'outbox'], 'readwrite', (transaction) => {
+        items.forEach((m) => transaction.objectStore('measurements').put(m));
+        enqueue(
+          transaction,
+          items.map((m) => createOutboxEntry('measurement', 'upsert', m.id, m))
+        );
+      }),
+    deleteMeasurement: (measurement) =>
+      run(['measurements', 'outbox'], 'readwrite', (transaction) => {
+        transaction.objectStore('measurements').delete(measurement.id);
+        enqueue(transaction, [createOutboxEntry('measurement', 'delete', measurement.id, measurement)]);
+      }),
+    getSetting: <T>(key: string) =>
+      read<T | undefined>('settings', (store) => store.get(key) as IDBRequest<T | undefined>),
+    setSetting: (key, value) =>
+      run(['settings'], 'readwrite', (transaction) => {
+        transaction.objectStore('settings').put(value, key);
+      }),
+    getOutbox: () => read<OutboxEntry[]>('outbox', (store) => store.index('createdAt').getAll()),
+    removeFromOutbox: (ids) =>
+      run(['outbox'], 'readwrite', (transaction) => {
+        ids.forEach((id) => transaction.objectStore('outbox').delete(id));
+      }),
+  };
+};
+
+// Talks to the HTTP API directly. Nothing is queued locally, so the outbox is
+// always empty; settings stay in this browser.
+export const createRestRepository = (client: ApiClient): Repository => {
+  const settingKey = (key: string) => `settings:${key}`;
+
+  return {
+    getUsers: () => client.getUsers(),
+    saveUser: async (user) => {
+      await client.saveUser(user);
+    },
+    deleteUser: (id) => client.deleteUser(id),
+    getMeasurements: (userId) => client.getMeasurements(userId),
+    saveMeasurements: async (items) => {
+      for (const measurement of items) {
+        await client.saveMeasurement(measurement);
+      }
+    },
+    deleteMeasurement: (measurement) => client.deleteMeasurement(measurement.userId, measurement.id),
+    getSetting: async <T>(key: string) => {
+      const saved = localStorage.getItem(settingKey(key));
+      return saved === null ? undefined : (JSON.parse(saved) as T);
+    },
+    setSetting: async (key, value) => {
+      localStorage.setItem(settingKey(key), JSON.stringify(value));
+    },
+    getOutbox: async () => [],
+    removeFromOutbox: async () => {},
+  };
+};
+
+export const getStorageMode = (): StorageMode =>
+  localStorage.getItem(STORAGE_MODE_KEY) === 'remote' ? 'remote' : 'local';
+
+// The repository is created once per page load, so callers reload after switching
+export const setStorageMode = (mode: StorageMode) => {
+  localStorage.setItem(STORAGE_MODE_KEY, mode);
+};
+
+let localRepository: Repository | null = null;
+let repository: Repository | null = null;
+
+// The on-device repository, regardless of the selected mode
+export const getLocalRepository = (): Repository => {
+  if (!localRepository) {
+    localRepository = typeof indexedDB !== 'undefined'
+      ? createIndexedDBRepository()
+      : createMemoryRepository();
+  }
+  return localRepository;
+};
+
+export const getRepository = (): Repository => {
+  if (!repository) {
+    repository = getStorageMode() === 'remote'
+      ? createRestRepository(createApiClient({ baseUrl: API_BASE_URL }))
+      : getLocalRepository();
+  }
+  return repository;
+};
+
+let migration: Promise<void> | null = null;
+
+// Moves data persisted by earlier versions in localStorage into the repository once
+export const migrateFromLocalStorage = (target: Repository): Promise<void> => {
+  if (!migration) {
+    migration = (async () => {
+      if (await target.getSetting<boolean>(MIGRATED_SETTING)) return;
+
+      const users = loadUsers() || [];
+      for (const user of users) {
+        await target.saveUser(user);
+        await target.saveMeasurements(loadMeasurements(user.id));
+      }
+      const activeUserId = loadActiveUserId();
+      if (activeUserId) {
+        await target.setSetting(ACTIVE_USER_SETTING, activeUserId);
+      }
+
+      // The localStorage copy is left in place as a fallback
+      await target.setSetting(MIGRATED_SETTING, true);
+    })();
+  }
+  return migration;
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ScalePayloadError,
+  mergeBodyComposition,
+  parseBodyCompositionMeasurement,
+  parseWeightMeasurement,
+  toDraftMeasurement,
+} from './scaleGatt';
+
+// Characteristic values as received from scales, little-endian hex bytes
+const WEIGHT_PAYLOADS = {
+  // kg; timestamp 2024-03-15 07:30:00, user 1, BMI 23.2, height 1.800 m
+  siFull: '0e d4 3a e8 07 03 0f 07 1e 00 01 e8 00 08 07',
+  // 166.00 lb with BMI 23.2 and height 70.9 in
+  imperialWithHeight: '09 d8 40 e8 00 c5 02',
+  unsuccessful: '00 ff ff',
+  truncated: '0e d4 3a e8 07',
+};
+
+const BODY_COMPOSITION_PAYLOADS = {
+  // 22.4 %, basal metabolism 6904 kJ, muscle 55.2 kg, water 42.1 kg, weight 75.3 kg
+  si: '28 05 e0 00 f8 1a 20 2b e4 20 d4 3a',
+  // 25.0 %, weight 166.00 lb
+  imperial: '01 04 fa 00 d8 40',
+  unsuccessful: '00 00 ff ff',
+  // One measurement split in two: the first packet announces the second
+  multiPacketFirst: '08 10 e0 00 f8 1a',
+  multiPacketSecond: '00 05 ff ff e4 20 d4 3a',
+  truncated: '28 05 e0 00 f8',
+};
+
+const toView = (hex: string) =>
+  new DataView(new Uint8Array(hex.split(' ').map((byte) => parseInt(byte, 16))).buffer);
+
+describe('parseWeightMeasurement', () => {
+  it('reads an SI payload with every optional field', () => {
+    expect(parseWeightMeasurement(toView(WEIGHT_PAYLOADS.siFull))).toEqual({
+      weight: 75.3,
+      timestamp: new Date(2024, 2, 15, 7, 30, 0),
+      userId: 1,
+      bmi: 23.2,
+      height: 1.8,
+    });
+  });
+
+  it('converts pounds and inches', () => {
+    expect(parseWeightMeasurement(toView(WEIGHT_PAYLOADS.imperialWithHeight))).toEqual({
+      weight: 75.3,
+      bmi: 23.2,
+      height: 1.801,
+    });
+  });
+
+  it('reports an unsuccessful measurement as null', () => {
+    expect(parseWeightMeasurement(toView(WEIGHT_PAYLOADS.unsuccessful))).toEqual({ weight: null });
+  });
+
+  it('rejects a truncated payload', () => {
+    expect(() => parseWeightMeasurement(toView(WEIGHT_PAYLOADS.truncated))).toThrow(ScalePayloadError);
+  });
+});
+
+describe('parseBodyCompositionMeasurement', () => {
+  it('reads the optional fields in flag order', () => {
+    expect(parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.si))).toEqual({
+      bodyFatPercentage: 22.4,
+      basalMetabolism: 1650,
+      muscleMass: 55.2,
+      bodyWaterMass: 42.1,
+      weight: 75.3,
+      multiplePacket: false,
+    });
+  });
+
+  it('converts imperial masses to kg', () => {
+    expect(parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.imperial))).toEqual({
+      bodyFatPercentage: 25,
+      weight: 75.3,
+      multiplePacket: false,
+    });
+  });
+
+  it('reports an unsuccessful measurement as null', () => {
+    expect(parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.unsuccessful))).toEqual({
+      bodyFatPercentage: null,
+      multiplePacket: false,
+    });
+  });
+
+  it('rejects a truncated payload', () => {
+    expect(() => parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.truncated))).toThrow(
+      ScalePayloadError
+    );
+  });
+});
+
+describe('mergeBodyComposition', () => {
+  it('joins the packets of a split measurement', () => {
+    const packets = [BODY_COMPOSITION_PAYLOADS.multiPacketFirst, BODY_COMPOSITION_PAYLOADS.multiPacketSecond].map(
+      (hex) => parseBodyCompositionMeasurement(toView(hex))
+    );
+    expect(packets[0].multiplePacket).toBe(true);
+    expect(mergeBodyComposition(packets)).toEqual({
+      bodyFatPercentage: 22.4,
+      basalMetabolism: 1650,
+      bodyWaterMass: 42.1,
+      weight: 75.3,
+      multiplePacket: false,
+    });
+  });
+
+  it('returns null without packets', () => {
+    expect(mergeBodyComposition([])).toBeNull();
+  });
+});
+
+describe('toDraftMeasurement', () => {
+  const now = new Date(2024, 5, 1, 9, 0, 0);
+
+  it('fills the form values and notes the total muscle mass', () => {
+    const draft = toDraftMeasurement(
+      {
+        weight: parseWeightMeasurement(toView(WEIGHT_PAYLOADS.siFull)),
+        bodyComposition: parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.si)),
+      },
+      now
+    );
+    expect(draft?.date).toEqual(new Date(2024, 2, 15, 7, 30, 0));
+    expect(draft?.values).toEqual({
+      weight: 75.3,
+      bodyFatPercentage: 22.4,
+      skeletalMuscleMass: 55.2,
+      waterPercentage: 55.9,
+      basalMetabolicRate: 1650,
+    });
+    expect(draft?.notes).toHaveLength(1);
+  });
+
+  it('skips an unsuccessful body fat reading', () => {
+    const draft = toDraftMeasurement(
+      {
+        weight: parseWeightMeasurement(toView(WEIGHT_PAYLOADS.imperialWithHeight)),
+        bodyComposition: parseBodyCompositionMeasurement(toView(BODY_COMPOSITION_PAYLOADS.unsuccessful)),
+      },
+      now
+    );
+    expect(draft).toEqual({ date: now, values: { weight: 75.3 }, notes: [] });
+  });
+
+  it('needs a weight', () => {
+    expect(toDraftMeasurement({ weight: parseWeightMeasurement(toView(WEIGHT_PAYLOADS.unsuccessful)) }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { Measurement } from '../types';
+import { INCH_TO_CM, LB_TO_KG } from './units';
+
+// Parsers for the Bluetooth SIG Weight Scale and Body Composition services.
+// They work on the raw characteristic value, so recorded payloads can be
+// checked without a device.
+
+export const WEIGHT_SCALE_SERVICE = 0x181d;
+export const WEIGHT_MEASUREMENT_CHARACTERISTIC = 0x2a9d;
+export const BODY_COMPOSITION_SERVICE = 0x181b;
+export const BODY_COMPOSITION_MEASUREMENT_CHARACTERISTIC = 0x2a9c;
+
+const INCH_TO_M = INCH_TO_CM / 100;
+const KJ_PER_KCAL = 4.184;
+
+// Masses are sent in 0.005 kg or 0.01 lb steps, heights in 0.001 m or 0.1 in
+const SI_MASS_RESOLUTION = 0.005;
+const IMPERIAL_MASS_RESOLUTION = 0.01;
+const SI_HEIGHT_RESOLUTION = 0.001;
+const IMPERIAL_HEIGHT_RESOLUTION = 0.1;
+
+// A measurement the scale could not take is sent as all bits set
+const MEASUREMENT_UNSUCCESSFUL = 0xffff;
+
+export class ScalePayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScalePayloadError';
+  }
+}
+
+export interface WeightMeasurement {
+  weight: number | null; // kg, null when the scale reports a failed reading
+  timestamp?: Date;
+  userId?: number;
+  bmi?: number;
+  height?: number; // m
+}
+
+// Every value in kg, % or kcal regardless of the units the scale was set to
+export interface BodyCompositionMeasurement {
+  bodyFatPercentage: number | null;
+  timestamp?: Date;
+  userId?: number;
+  basalMetabolism?: number; // kcal
+  musclePercentage?: number;
+  muscleMass?: number;
+  fatFreeMass?: number;
+  softLeanMass?: number;
+  bodyWaterMass?: number;
+  impedance?: number; // Ω
+  weight?: number;
+  height?: number; // m
+  // The rest of the fields follow in another indication
+  multiplePacket: boolean;
+}
+
+// Sequential little-endian reader that reports truncated payloads
+const createPayloadReader = (view: DataView) => {
+  let offset = 0;
+
+  const ensure = (length: number) => {
+    if (offset + length > view.byteLength) {
+      throw new ScalePayloadError(`Пакет весов обрывается на ${offset} байте из ${offset + length} ожидаемых`);
+    }
+  };
+
+  const uint8 = () => {
+    ensure(1);
+    const value = view.getUint8(offset);
+    offset += 1;
+    return value;
+  };
+
+  const uint16 = () => {
+    ensure(2);
+    const value = view.getUint16(offset, true);
+    offset += 2;
+    return value;
+  };
+
+  // Date Time characteristic: year, month, day, hours, minutes, seconds.
+  // Zero year, month or day means unknown.
+  const dateTime = (): Date | undefined => {
+    const year = uint16();
+    const [month, day, hours, minutes, seconds] = [uint8(), uint8(), uint8(), uint8(), uint8()];
+    if (year === 0 || month === 0 || day === 0) return undefined;
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  };
+
+  return { uint8, uint16, dateTime };
+};
+
+const hasFlag = (flags: number, bit: number) => (flags & (1 << bit)) !== 0;
+
+const round = (value: number, digits: number) => parseFloat(value.toFixed(digits));
+
+const toKg = (raw: number, imperial: boolean) =>
+  imperial ? round(raw * IMPERIAL_MASS_RESOLUTION * LB_TO_KG, 2) : round(raw * SI_MASS_RESOLUTION, 3);
+
+const toMeters = (raw: number, imperial: boolean) =>
+  imperial ? round(raw * IMPERIAL_HEIGHT_RESOLUTION * INCH_TO_M, 3) : round(raw * SI_HEIGHT_RESOLUTION, 3);
+
+// Weight Measurement (0x2A9D)
+export const parseWeightMeasurement = (view: DataView): WeightMeasurement => {
+  const reader = createPayloadReader(view);
+  const flags = reader.uint8();
+  const imperial = hasFlag(flags, 0);
+
+  const rawWeight = reader.uint16();
+  const result: WeightMeasurement = {
+    weight: rawWeight === MEASUREMENT_UNSUCCESSFUL ? null : toKg(rawWeight, imperial),
+  };
+  if (hasFlag(flags, 1)) result.timestamp = reader.dateTime();
+  if (hasFlag(flags, 2)) result.userId = reader.uint8();
+  if (hasFlag(flags, 3)) {
+    result.bmi = round(reader.uint16() * 0.1, 1);
+    result.height = toMeters(reader.uint16(), imperial);
+  }
+  return result;
+};
+
+// Body Composition Measurement (0x2A9C). Optional fields follow the body
+// fat percentage in the order of their flag bits.
+export const parseBodyCompositionMeasurement = (view: DataView): BodyCompositionMeasurement => {
+  const reader = createPayloadReader(view);
+  const flags = reader.uint16();
+  const imperial = hasFlag(flags, 0);
+  const mass = () => toKg(reader.uint16(), imperial);
+
+  const rawBodyFat = reader.uint16();
+  const result: BodyCompositionMeasurement = {
+    bodyFatPercentage: rawBodyFat === MEASUREMENT_UNSUCCESSFUL ? null : round(rawBodyFat * 0.1, 1),
+    multiplePacket: hasFlag(flags, 12),
+  };
+  if (hasFlag(flags, 1)) result.timestamp = reader.dateTime();
+  if (hasFlag(flags, 2)) result.userId = reader.uint8();
+  if (hasFlag(flags, 3)) result.basalMetabolism = Math.round(reader.uint16() / KJ_PER_KCAL);
+  if (hasFlag(flags, 4)) result.musclePercentage = round(reader.uint16() * 0.1, 1);
+  if (hasFlag(flags, 5)) result.muscleMass = mass();
+  if (hasFlag(flags, 6)) result.fatFreeMass = mass();
+  if (hasFlag(flags, 7)) result.softLeanMass = mass();
+  if (hasFlag(flags, 8)) result.bodyWaterMass = mass();
+  if (hasFlag(flags, 9)) result.impedance = round(reader.uint16() * 0.1, 1);
+  if (hasFlag(flags, 10)) result.weight = mass();
+  if (hasFlag(flags, 11)) result.height = toMeters(reader.uint16(), imperial);
+  return result;
+};
+
+// Joins the packets of a measurement split over several indications;
+// later packets only add fields
+export const mergeBodyComposition = (packets: BodyCompositionMeasurement[]): BodyCompositionMeasurement | null => {
+  if (packets.length === 0) return null;
+  return packets.reduce((merged, packet) => {
+    const defined = Object.fromEntries(
+      Object.entries(packet).filter(([, value]) => value !== undefined && value !== null)
+    );
+    return { ...merged, ...defined, multiplePacket: packet.multiplePacket };
+  });
+};
+
+export interface ScaleReading {
+  weight?: WeightMeasurement;
+  bodyComposition?: BodyCompositionMeasurement;
+}
+
+export interface ScaleDraft {
+  date: Date;
+  values: Partial<
+    Pick<Measurement, 'weight' | 'bodyFatPercentage' | 'skeletalMuscleMass' | 'waterPercentage' | 'basalMetabolicRate'>
+  >;
+  // Values the scale reports differently from an InBody sheet
+  notes: string[];
+}
+
+// Turns the latest readings into measurement values. Consumer scales report
+// total muscle mass, which is larger than InBody's skeletal muscle mass, so
+// it is passed on with a note rather than silently.
+export const toDraftMeasurement = (reading: ScaleReading, now: Date = new Date()): ScaleDraft | null => {
+  const { weight: weightReading, bodyComposition } = reading;
+  const weight = bodyComposition?.weight ?? weightReading?.weight ?? undefined;
+  if (weight === undefined) return null;
+
+  const draft: ScaleDraft = {
+    date: bodyComposition?.timestamp ?? weightReading?.timestamp ?? now,
+    values: { weight: round(weight, 1) },
+    notes: [],
+  };
+  if (!bodyComposition) return draft;
+
+  if (bodyComposition.bodyFatPercentage !== null) {
+    draft.values.bodyFatPercentage = bodyComposition.bodyFatPercentage;
+  }
+  if (bodyComposition.muscleMass !== undefined) {
+    draft.values.skeletalMuscleMass = round(bodyComposition.muscleMass, 1);
+    draft.notes.push('Весы передают общую мышечную массу — она больше скелетной мышечной массы InBody.');
+  }
+  if (bodyComposition.bodyWaterMass !== undefined) {
+    // 1 kg of water is about 1 l
+    draft.values.waterPercentage = round((bodyComposition.bodyWaterMass / weight) * 100, 1);
+  }
+  if (bodyComposition.basalMetabolism !== undefined) {
+    draft.values.basalMetabolicRate = bodyComposition.basalMetabolism;
+  }
+  return draft;
+};
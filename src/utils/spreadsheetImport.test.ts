@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { User } from '../types';
+import {
+  SpreadsheetTable,
+  buildImportPreview,
+  detectMassUnit,
+  detectSourceFormat,
+  parseImportDate,
+  suggestMapping,
+} from './spreadsheetImport';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+const preview = (table: SpreadsheetTable) => {
+  const mapping = suggestMapping(table.headers);
+  return buildImportPreview(table, mapping, {
+    unit: detectMassUnit(table.headers, mapping),
+    user,
+    existing: [],
+  });
+};
+
+describe('buildImportPreview', () => {
+  it('reads a Russian table with decimal commas', () => {
+    const table: SpreadsheetTable = {
+      headers: ['Дата', 'Вес, кг', 'Процент жира, %', 'Мышечная масса, кг', 'Висцеральный жир'],
+      rows: [
+        ['31.01.2024 9:30', '64,2', '26,9', '25,4', '-'],
+        ['01.02.2024', '64,2 кг', '26,9', '25,4', '7'],
+      ],
+    };
+
+    expect(detectSourceFormat(table.headers)).toBe('generic');
+    const [first, second] = preview(table);
+    expect(first.status).toBe('ready');
+    expect(first.measurement).toMatchObject({
+      date: new Date(2024, 0, 31, 9, 30),
+      weight: 64.2,
+      bodyFatPercentage: 26.9,
+      bodyFatMass: 17.3,
+      skeletalMuscleMass: 25.4,
+      bmi: 22.7,
+    });
+    expect(first.measurement?.visceralFat).toBeUndefined();
+    expect(second.status).toBe('invalid');
+    expect(second.errors).toContain('Некорректное число в столбце «Вес, кг»: "64,2 кг"');
+  });
+
+  it('converts a LookinBody export in pounds', () => {
+    const table: SpreadsheetTable = {
+      headers: [
+        'Test Date / Time',
+        'Weight(lb)',
+        'SMM(Skeletal Muscle Mass)(lb)',
+        'BFM(Body Fat Mass)(lb)',
+        'TBW(Total Body Water)(lb)',
+      ],
+      rows: [['20240131093000', 150, 62.4, 40.1, 80.5]],
+    };
+
+    expect(detectSourceFormat(table.headers)).toBe('lookinbody');
+    expect(detectMassUnit(table.headers, suggestMapping(table.headers))).toBe('lb');
+    // Fat and water shares follow from the converted masses
+    expect(preview(table)[0].measurement).toMatchObject({
+      weight: 68,
+      skeletalMuscleMass: 28.3,
+      bodyFatMass: 18.2,
+      bodyFatPercentage: 26.8,
+      waterPercentage: 53.7,
+    });
+  });
+
+  it('marks a second result of the same day as a duplicate', () => {
+    const table: SpreadsheetTable = {
+      headers: ['date', 'weight', 'bodyFatPercentage', 'skeletalMuscleMass'],
+      rows: [
+        ['2024-01-31 09:30', '64.2', '26.9', '25.4'],
+        ['2024-01-31 18:00', '64.8', '27.1', '25.4'],
+      ],
+    };
+
+    expect(preview(table).map((row) => row.status)).toEqual(['ready', 'duplicate']);
+  });
+});
+
+describe('parseImportDate', () => {
+  it('rejects dates that do not exist', () => {
+    expect(parseImportDate('31.02.2024')).toBeNull();
+    expect(parseImportDate('02/29/2024')).toEqual(new Date(2024, 1, 29));
+  });
+});
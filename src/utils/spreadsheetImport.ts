@@ -0,0 +1,346 @@
+import { Measurement, User } from '../types';
+import { calculateBMI } from './healthCalculations';
+import { validateMeasurement } from './validation';
+import { toDateInputValue } from './dateRange';
+import { parseNumber, splitLine } from './csv';
+import { readFileAsText } from './download';
+import { LB_TO_KG } from './units';
+import { v4 as uuidv4 } from 'uuid';
+
+export type SpreadsheetCell = string | number | Date | null;
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: SpreadsheetCell[][];
+}
+
+export type ImportField =
+  | 'date'
+  | 'weight'
+  | 'skeletalMuscleMass'
+  | 'bodyFatPercentage'
+  | 'bodyFatMass'
+  | 'visceralFat'
+  | 'waterPercentage'
+  | 'totalBodyWater'
+  | 'basalMetabolicRate'
+  | 'bmi'
+  | 'metabolicAge';
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type MassUnit = 'kg' | 'lb';
+
+export type SourceFormat = 'lookinbody' | 'app' | 'generic';
+
+interface ImportFieldDefinition {
+  label: string;
+  // Header names without units, lower case; English names follow LookinBody
+  aliases: string[];
+  // Given in the file's mass unit. Water is exported in litres or pounds.
+  mass?: boolean;
+  required?: boolean;
+}
+
+export const IMPORT_FIELDS: Record<ImportField, ImportFieldDefinition> = {
+  date: {
+    label: 'Дата измерения',
+    aliases: ['date', 'test date / time', 'test date', 'datetime', 'дата', 'дата измерения', 'дата и время'],
+    required: true,
+  },
+  weight: {
+    label: 'Вес',
+    aliases: ['weight', 'body weight', 'вес', 'масса тела'],
+    mass: true,
+    required: true,
+  },
+  skeletalMuscleMass: {
+    label: 'Мышечная масса',
+    aliases: ['skeletalmusclemass', 'smm', 'skeletal muscle mass', 'смм', 'скелетная мышечная масса', 'мышечная масса'],
+    mass: true,
+    required: true,
+  },
+  bodyFatPercentage: {
+    label: 'Процент жира',
+    aliases: ['bodyfatpercentage', 'pbf', 'percent body fat', 'body fat %', 'процент жира', 'процентное содержание жира'],
+  },
+  bodyFatMass: {
+    label: 'Масса жира',
+    aliases: ['bodyfatmass', 'bfm', 'body fat mass', 'масса жира', 'жировая масса'],
+    mass: true,
+  },
+  visceralFat: {
+    label: 'Висцеральный жир',
+    aliases: ['visceralfat', 'visceral fat level', 'vfl', 'уровень висцерального жира', 'висцеральный жир'],
+  },
+  waterPercentage: {
+    label: 'Процент воды',
+    aliases: ['waterpercentage', 'water %', 'процент воды'],
+  },
+  totalBodyWater: {
+    label: 'Общая вода',
+    aliases: ['tbw', 'total body water', 'общее количество воды', 'общая вода'],
+    mass: true,
+  },
+  basalMetabolicRate: {
+    label: 'Основной обмен',
+    aliases: ['basalmetabolicrate', 'bmr', 'basal metabolic rate', 'основной обмен', 'базальный метаболизм'],
+  },
+  bmi: {
+    label: 'ИМТ',
+    aliases: ['bmi', 'body mass index', 'имт', 'индекс массы тела'],
+  },
+  metabolicAge: {
+    label: 'Метаболический возраст',
+    aliases: ['metabolicage', 'metabolic age', 'метаболический возраст'],
+  },
+};
+
+export const IMPORT_FIELD_KEYS = Object.keys(IMPORT_FIELDS) as ImportField[];
+
+export const SOURCE_FORMAT_LABELS: Record<SourceFormat, string> = {
+  lookinbody: 'LookinBody / InBody',
+  app: 'Экспорт этого приложения',
+  generic: 'Таблица с произвольными столбцами',
+};
+
+export interface ImportPreviewRow {
+  row: number; // row number in the file, the header being row 1
+  measurement: Measurement | null;
+  errors: string[];
+  // A duplicate falls on a day that already has a measurement
+  status: 'ready' | 'invalid' | 'duplicate';
+}
+
+export interface ImportPreviewOptions {
+  unit: MassUnit;
+  user: User;
+  existing: Measurement[];
+}
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim();
+
+// "SMM(Skeletal Muscle Mass)", "Weight [lb]" and "Вес, кг" all reduce to the name
+const stripUnits = (header: string) =>
+  header.replace(/[([][^)\]]*[)\]]/g, ' ').replace(/,.*$/, '').replace(/\s+/g, ' ').trim();
+
+const getBracketed = (header: string) =>
+  [...header.matchAll(/[([]([^)\]]*)[)\]]/g)].map((match) => match[1].trim());
+
+const matchesField = (header: string, field: ImportField) => {
+  const normalized = normalizeHeader(header);
+  const candidates = [normalized, stripUnits(normalized), ...getBracketed(normalized)];
+  return candidates.some((candidate) => IMPORT_FIELDS[field].aliases.includes(candidate));
+};
+
+export const detectSourceFormat = (headers: string[]): SourceFormat => {
+  const normalized = headers.map(normalizeHeader);
+  if (normalized.includes('bodyfatpercentage') && normalized.includes('skeletalmusclemass')) return 'app';
+  if (normalized.some((header) => header.startsWith('test date') || /^(smm|pbf|bfm)\b/.test(header))) {
+    return 'lookinbody';
+  }
+  return 'generic';
+};
+
+// Each field takes the first column whose header names it
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  IMPORT_FIELD_KEYS.forEach((field) => {
+    const index = headers.findIndex((header, i) => !used.has(i) && matchesField(header, field));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+// The unit printed in the weight header, kilograms otherwise
+export const detectMassUnit = (headers: string[], mapping: ColumnMapping): MassUnit => {
+  const weightHeader = mapping.weight === undefined ? '' : headers[mapping.weight];
+  return /\blbs?\b|фунт/i.test(weightHeader) ? 'lb' : 'kg';
+};
+
+// Spreadsheet dates carry no time zone; the reader returns them as UTC
+const fromSpreadsheetDate = (date: Date) =>
+  new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // days from 1899-12-30 to 1970-01-01
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (year: string, month: string, day: string, hours = '0', minutes = '0', seconds = '0') => {
+  const date = new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  // Rejects overflowing values such as 31.02
+  return date.getMonth() === +month - 1 && date.getDate() === +day ? date : null;
+};
+
+// Accepts LookinBody's "20240131093000", year-first dates, "31.01.2024 9:30"
+// as written in Russian exports, US "01/31/2024" and ISO timestamps
+export const parseImportDate = (cell: SpreadsheetCell): Date | null => {
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? null : fromSpreadsheetDate(cell);
+  if (typeof cell === 'number') {
+    if (cell > 19000000) return parseImportDate(String(cell));
+    // Serial day number of a cell without date formatting
+    return fromSpreadsheetDate(new Date(Math.round((cell - EXCEL_EPOCH_OFFSET_DAYS) * DAY_MS)));
+  }
+  const text = cell?.trim() ?? '';
+  if (text === '') return null;
+
+  let match = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?$/.exec(text);
+  if (match) return toDate(match[1], match[2], match[3], match[4], match[5], match[6]);
+
+  const time = '(?:[ T,]+(\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?';
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  match = new RegExp(`^(\\d{4})[.\\-/](\\d{1,2})[.\\-/](\\d{1,2})${time}`).exec(text);
+  if (match) return toDate(match[1], match[2], match[3], match[4], match[5], match[6]);
+  match = new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${time}`).exec(text);
+  if (match) return toDate(match[3], match[2], match[1], match[4], match[5], match[6]);
+  match = new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${time}`).exec(text);
+  if (match) return toDate(match[3], match[1], match[2], match[4], match[5], match[6]);
+  return null;
+};
+
+const parseCellNumber = (cell: SpreadsheetCell): number | undefined => {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string' || cell.trim() === '' || cell.trim() === '-') return undefined;
+  return parseNumber(cell);
+};
+
+const round = (value: number, digits = 1) => parseFloat(value.toFixed(digits));
+
+const formatCell = (cell: SpreadsheetCell) =>
+  cell instanceof Date ? cell.toISOString() : String(cell ?? '');
+
+// Turns mapped rows into measurements with the same checks as the entry form.
+// Exports hold one result per day, so rows from a day that already has a
+// stored measurement or an earlier row are duplicates and are not imported.
+// Optional values the file lacks stay missing.
+export const buildImportPreview = (
+  table: SpreadsheetTable,
+  mapping: ColumnMapping,
+  { unit, user, existing }: ImportPreviewOptions
+): ImportPreviewRow[] => {
+  const knownDays = new Set(existing.map((m) => toDateInputValue(m.date)));
+
+  return table.rows.map((cells, index) => {
+    const row = index + 2;
+    const errors: string[] = [];
+    const values: Partial<Record<ImportField, number>> = {};
+
+    IMPORT_FIELD_KEYS.forEach((field) => {
+      const column = mapping[field];
+      if (field === 'date' || column === undefined) return;
+      const value = parseCellNumber(cells[column] ?? null);
+      if (value === undefined) return;
+      if (Number.isNaN(value)) {
+        errors.push(`Некорректное число в столбце «${table.headers[column]}»: "${formatCell(cells[column])}"`);
+        return;
+      }
+      values[field] = IMPORT_FIELDS[field].mass && unit === 'lb' ? round(value * LB_TO_KG) : value;
+    });
+
+    const dateCell = mapping.date === undefined ? null : cells[mapping.date] ?? null;
+    const date = parseImportDate(dateCell);
+    if (!date) {
+      errors.push(`Некорректная дата: "${formatCell(dateCell)}"`);
+    }
+
+    const { weight } = values;
+    const bodyFatPercentage =
+      values.bodyFatPercentage ??
+      (values.bodyFatMass !== undefined && weight ? round((values.bodyFatMass / weight) * 100) : undefined);
+    // 1 l of water weighs about 1 kg
+    const waterPercentage =
+      values.waterPercentage ??
+      (values.totalBodyWater !== undefined && weight ? round((values.totalBodyWater / weight) * 100) : undefined);
+
+    errors.push(
+      ...Object.values(
+        validateMeasurement({
+          weight,
+          bodyFatPercentage,
+          skeletalMuscleMass: values.skeletalMuscleMass,
+          waterPercentage,
+          date: date ?? undefined,
+        })
+      )
+    );
+
+    if (errors.length > 0 || !date) {
+      return { row, measurement: null, errors, status: 'invalid' };
+    }
+
+    const day = toDateInputValue(date);
+    const isDuplicate = knownDays.has(day);
+    knownDays.add(day);
+
+    return {
+      row,
+      measurement: {
+        id: uuidv4(),
+        userId: user.id,
+        date,
+        weight: weight!,
+        bodyFatMass: values.bodyFatMass ?? round(weight! * (bodyFatPercentage! / 100)),
+        bodyFatPercentage: bodyFatPercentage!,
+        skeletalMuscleMass: values.skeletalMuscleMass!,
+        bmi: values.bmi ?? calculateBMI(weight!, user.height),
+        pbf: bodyFatPercentage!,
+        visceralFat: values.visceralFat,
+        waterPercentage,
+        basalMetabolicRate: values.basalMetabolicRate,
+        metabolicAge: values.metabolicAge,
+        bodyFatMethod: 'bioimpedance',
+      },
+      errors,
+      status: isDuplicate ? 'duplicate' : 'ready',
+    };
+  });
+};
+
+const isXlsxFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.xlsx') ||
+  file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const toCell = (value: unknown): SpreadsheetCell => {
+  if (value instanceof Date || typeof value === 'number' || typeof value === 'string') return value;
+  return value === null || value === undefined ? null : String(value);
+};
+
+const toTable = (rows: SpreadsheetCell[][]): SpreadsheetTable => {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell !== null && cell !== ''));
+  const [header = [], ...rest] = nonEmpty;
+  return { headers: header.map((cell) => formatCell(cell).trim()), rows: rest };
+};
+
+// Reads the first sheet of an XLSX workbook or a CSV/TSV file; the first
+// non-empty row holds the column names
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetTable> => {
+  if (isXlsxFile(file)) {
+    // The XLSX reader is only needed for this import
+    const { readSheet } = await import('read-excel-file/browser');
+    const rows = await readSheet(file);
+    return toTable(rows.map((row) => row.map(toCell)));
+  }
+
+  const lines = (await readFileAsText(file))
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  const first = lines[0] ?? '';
+  const delimiter = first.includes('\t') ? '\t' : first.includes(';') ? ';' : ',';
+  return toTable(lines.map((line) => splitLine(line, delimiter)));
+};
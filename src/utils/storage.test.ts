@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { clearUnmeasuredZeros } from './storage';
+
+describe('clearUnmeasuredZeros', () => {
+  it('removes the 0 that earlier versions stored for values that were not measured', () => {
+    expect(
+      clearUnmeasuredZeros({ id: 'm-1', weight: 64.2, visceralFat: 0, waterPercentage: 0, basalMetabolicRate: 1352 })
+    ).toEqual({ id: 'm-1', weight: 64.2, basalMetabolicRate: 1352 });
+  });
+
+  it('leaves other records alone', () => {
+    expect(clearUnmeasuredZeros(null)).toBeNull();
+    expect(clearUnmeasuredZeros(['visceralFat'])).toEqual(['visceralFat']);
+  });
+});
@@ -0,0 +1,307 @@
+import { Goal, Measurement, User } from '../types';
+import { isBodyFatMethod } from './bodyFatEstimation';
+
+// Versioned localStorage persistence used before the IndexedDB repository.
+// It is now only read once to migrate existing data; the record validation
+// and quarantine helpers are shared with the repository and the API client.
+
+// Bump when the shape of a persisted record changes and add a migration below
+export const SCHEMA_VERSION = 3;
+
+const USERS_KEY = 'users';
+const ACTIVE_USER_KEY = 'activeUserId';
+const QUARANTINE_KEY = 'quarantine';
+// Measurements used to be stored for everyone under a single key
+const LEGACY_MEASUREMENTS_KEY = 'measurements';
+
+const getMeasurementsKey = (userId: string) => `measurements:${userId}`;
+
+interface VersionedPayload<T> {
+  version: number;
+  data: T;
+}
+
+export interface QuarantinedRecord {
+  key: string;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+type Migration = (records: unknown[]) => unknown[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Schema versions before 3 stored optional values that were not measured as 0
+const UNMEASURED_AS_ZERO = ['visceralFat', 'waterPercentage', 'basalMetabolicRate'];
+
+export const clearUnmeasuredZeros = <T>(record: T): T => {
+  if (!isRecord(record)) return record;
+  const cleared: Record<string, unknown> = { ...record };
+  UNMEASURED_AS_ZERO.forEach((field) => {
+    if (cleared[field] === 0) delete cleared[field];
+  });
+  return cleared as T;
+};
+
+// migrations[n] upgrades a payload from version n to n + 1
+const measurementMigrations: Record<number, Migration> = {
+  // v1 was a bare array without a version envelope; records are unchanged
+  1: (records) => records,
+  2: (records) => records.map(clearUnmeasuredZeros),
+};
+
+const userMigrations: Record<number, Migration> = {
+  1: (records) => records,
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Problems with stored data found while loading, reported once by the contexts
+let quarantinedCount = 0;
+const newerSchemaKeys = new Set<string>();
+
+export const takeStorageNotice = (): string | null => {
+  const notices: string[] = [];
+  if (quarantinedCount > 0) {
+    notices.push(`Поврежденные записи перемещены в карантин: ${quarantinedCount}`);
+  }
+  if (newerSchemaKeys.size > 0) {
+    notices.push(
+      `Данные сохранены более новой версией приложения и не загружены: ${[...newerSchemaKeys].join(', ')}`
+    );
+  }
+  quarantinedCount = 0;
+  newerSchemaKeys.clear();
+  return notices.length > 0 ? notices.join('. ') : null;
+};
+
+export const quarantine = (key: string, record: unknown, reason: string) => {
+  const existing = readQuarantine();
+  const entry: QuarantinedRecord = {
+    key,
+    record,
+    reason,
+    quarantinedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, entry]));
+  quarantinedCount++;
+};
+
+export const readQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const REQUIRED_MEASUREMENT_NUMBERS: Array<keyof Measurement> = [
+  'weight',
+  'bodyFatMass',
+  'bodyFatPercentage',
+  'skeletalMuscleMass',
+  'bmi',
+  'pbf',
+];
+
+const OPTIONAL_MEASUREMENT_NUMBERS: Array<keyof Measurement> = [
+  'visceralFat',
+  'waterPercentage',
+  'basalMetabolicRate',
+  'metabolicAge',
+];
+
+// An object whose values are numbers or missing, like Girths and SegmentValues
+const isOptionalNumberRecord = (value: unknown): boolean =>
+  isRecord(value) && Object.values(value).every((v) => v === undefined || isFiniteNumber(v));
+
+// Returns the revived measurement, or the reason it is unusable
+export const reviveMeasurement = (raw: unknown): Measurement | string => {
+  if (!isRecord(raw)) return 'запись не является объектом';
+  if (typeof raw.id !== 'string' || !raw.id) return 'отсутствует id';
+  if (typeof raw.userId !== 'string' || !raw.userId) return 'отсутствует userId';
+
+  const date = new Date(raw.date as string | number | Date);
+  if (raw.date === undefined || raw.date === null || Number.isNaN(date.getTime())) {
+    return 'некорректная дата';
+  }
+
+  const invalidField = REQUIRED_MEASUREMENT_NUMBERS.find((field) => !isFiniteNumber(raw[field]));
+  if (invalidField) return `некорректное поле ${invalidField}`;
+
+  const invalidOptionalField = OPTIONAL_MEASUREMENT_NUMBERS.find(
+    (field) => raw[field] !== undefined && !isFiniteNumber(raw[field])
+  );
+  if (invalidOptionalField) return `некорректное поле ${invalidOptionalField}`;
+
+  if (raw.bodyFatMethod !== undefined && !isBodyFatMethod(raw.bodyFatMethod)) {
+    return 'некорректное поле bodyFatMethod';
+  }
+
+  if (raw.girths !== undefined && !isOptionalNumberRecord(raw.girths)) {
+    return 'некорректное поле girths';
+  }
+
+  if (
+    raw.segmental !== undefined &&
+    !(isRecord(raw.segmental) && Object.values(raw.segmental).every(isOptionalNumberRecord))
+  ) {
+    return 'некорректное поле segmental';
+  }
+
+  return { ...(raw as unknown as Measurement), date };
+};
+
+const reviveDate = (value: unknown): Date | null => {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value as string | number | Date);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const reviveGoal = (raw: unknown): Goal | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.metric !== 'string') return null;
+  if (!isFiniteNumber(raw.targetValue) || !isFiniteNumber(raw.startValue)) return null;
+
+  const createdAt = reviveDate(raw.createdAt);
+  const deadline = reviveDate(raw.deadline);
+  if (!createdAt || !deadline) return null;
+
+  return { ...(raw as unknown as Goal), createdAt, deadline };
+};
+
+export const reviveUser = (raw: unknown): User | string => {
+  if (!isRecord(raw)) return 'запись не является объектом';
+  if (typeof raw.id !== 'string' || !raw.id) return 'отсутствует id';
+  if (typeof raw.name !== 'string') return 'некорректное имя';
+  if (!isFiniteNumber(raw.age)) return 'некорректный возраст';
+  if (!isFiniteNumber(raw.height)) return 'некорректный рост';
+  if (!['male', 'female', 'other'].includes(raw.gender as string)) return 'некорректный пол';
+  if (raw.referencePopulation !== undefined && !['male', 'female'].includes(raw.referencePopulation as string)) {
+    return 'некорректная группа сравнения';
+  }
+
+  if (raw.goals === undefined) return raw as unknown as User;
+  if (!Array.isArray(raw.goals)) return 'некорректное поле goals';
+  const goals = raw.goals.map(reviveGoal);
+  if (goals.some((goal) => goal === null)) return 'некорректная цель';
+
+  return { ...(raw as unknown as User), goals: goals as Goal[] };
+};
+
+// Records read from the database or the server are validated like the ones in
+// localStorage; invalid ones are quarantined instead of failing the whole load
+export const reviveAll = <T>(source: string, records: unknown[], revive: (raw: unknown) => T | string): T[] =>
+  records.flatMap((record) => {
+    const result = revive(record);
+    if (typeof result === 'string') {
+      quarantine(source, record, result);
+      return [];
+    }
+    return [result];
+  });
+
+// Reads a versioned array, migrates it to the current schema and revives each
+// record. Corrupt records are quarantined instead of failing the whole load.
+const readCollection = <T>(
+  key: string,
+  migrations: Record<number, Migration>,
+  revive: (raw: unknown) => T | string
+): T[] | null => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch {
+    quarantine(key, saved, 'не удалось разобрать JSON');
+    localStorage.removeItem(key);
+    return [];
+  }
+
+  // Payloads written before versioning are bare arrays
+  const payload: VersionedPayload<unknown> = Array.isArray(parsed)
+    ? { version: 1, data: parsed }
+    : (parsed as VersionedPayload<unknown>);
+
+  if (!isRecord(payload) || !isFiniteNumber(payload.version) || !Array.isArray(payload.data)) {
+    quarantine(key, parsed, 'неизвестный формат данных');
+    localStorage.removeItem(key);
+    return [];
+  }
+
+  if (payload.version > SCHEMA_VERSION) {
+    // Written by a newer version of the app; do not touch it
+    newerSchemaKeys.add(key);
+    return [];
+  }
+
+  let records = payload.data as unknown[];
+  for (let version = payload.version; version < SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (migrate) records = migrate(records);
+  }
+
+  const revived: T[] = [];
+  records.forEach((record) => {
+    const result = revive(record);
+    if (typeof result === 'string') {
+      quarantine(key, record, result);
+    } else {
+      revived.push(result);
+    }
+  });
+
+  if (payload.version !== SCHEMA_VERSION || revived.length !== records.length) {
+    writeCollection(key, revived);
+  }
+
+  return revived;
+};
+
+const writeCollection = <T>(key: string, data: T[]) => {
+  const payload: VersionedPayload<T[]> = { version: SCHEMA_VERSION, data };
+  localStorage.setItem(key, JSON.stringify(payload));
+};
+
+// Split the legacy shared array into per-user keys
+const migrateLegacyMeasurements = () => {
+  const legacy = readCollection(LEGACY_MEASUREMENTS_KEY, measurementMigrations, reviveMeasurement);
+  if (!legacy) return;
+
+  const byUser = new Map<string, Measurement[]>();
+  legacy.forEach((m) => {
+    byUser.set(m.userId, [...(byUser.get(m.userId) || []), m]);
+  });
+  byUser.forEach((userMeasurements, userId) => {
+    const existing = readCollection(getMeasurementsKey(userId), measurementMigrations, reviveMeasurement) || [];
+    writeCollection(getMeasurementsKey(userId), [...existing, ...userMeasurements]);
+  });
+  localStorage.removeItem(LEGACY_MEASUREMENTS_KEY);
+};
+
+export const loadMeasurements = (userId: string): Measurement[] => {
+  migrateLegacyMeasurements();
+  const key = getMeasurementsKey(userId);
+  const measurements = readCollection(key, measurementMigrations, reviveMeasurement) || [];
+
+  const owned = measurements.filter((m) => {
+    if (m.userId === userId) return true;
+    quarantine(key, m, 'измерение принадлежит другому профилю');
+    return false;
+  });
+  if (owned.length !== measurements.length) {
+    writeCollection(key, owned);
+  }
+  return owned;
+};
+
+export const loadUsers = (): User[] | null =>
+  readCollection(USERS_KEY, userMigrations, reviveUser);
+
+export const loadActiveUserId = (): string | null => localStorage.getItem(ACTIVE_USER_KEY);
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Measurement, User } from '../types';
+import { createMemoryRepository } from './repository';
+import { createMemorySyncAdapter, pullFromServer, syncOutbox } from './sync';
+
+const user: User = {
+  id: 'user-1',
+  name: 'Анна',
+  age: 34,
+  gender: 'female',
+  height: 168,
+  email: 'anna@example.com',
+};
+
+const measurement = (id: string, weight: number): Measurement => ({
+  id,
+  userId: user.id,
+  date: new Date('2024-03-01T08:30:00.000Z'),
+  weight,
+  bodyFatMass: 17.3,
+  bodyFatPercentage: 26.9,
+  skeletalMuscleMass: 25.4,
+  bmi: 22.7,
+  pbf: 26.9,
+});
+
+describe('syncOutbox', () => {
+  it('pushes pending changes and empties the outbox', async () => {
+    const repository = createMemoryRepository();
+    const adapter = createMemorySyncAdapter();
+    await repository.saveUser(user);
+    await repository.saveMeasurements([measurement('m-1', 64.2), measurement('m-2', 63.8)]);
+
+    expect(await syncOutbox(repository, adapter)).toEqual({ pushed: 3, pending: 0 });
+    expect(await repository.getOutbox()).toEqual([]);
+    expect(adapter.backend.users.get(user.id)).toEqual(user);
+    expect([...adapter.backend.measurements.keys()]).toEqual(['m-1', 'm-2']);
+
+    expect(await syncOutbox(repository, adapter)).toEqual({ pushed: 0, pending: 0 });
+  });
+
+  it('keeps only the latest change of a record', async () => {
+    const repository = createMemoryRepository();
+    const adapter = createMemorySyncAdapter();
+    await repository.saveUser(user);
+    await repository.saveMeasurements([measurement('m-1', 64.2)]);
+    await repository.saveUser({ ...user, name: 'Анна К.' });
+    await repository.saveMeasurements([measurement('m-1', 64)]);
+    await repository.saveMeasurements([measurement('m-2', 63.8)]);
+    await repository.deleteMeasurement(measurement('m-2', 63.8));
+
+    const outbox = await repository.getOutbox();
+    // The profile keeps its place ahead of its measurements
+    expect(outbox.map((entry) => [entry.entityId, entry.operation])).toEqual([
+      ['user-1', 'upsert'],
+      ['m-1', 'upsert'],
+      ['m-2', 'delete'],
+    ]);
+
+    await syncOutbox(repository, adapter);
+    expect(adapter.backend.users.get(user.id)?.name).toBe('Анна К.');
+    expect(adapter.backend.measurements.get('m-1')?.weight).toBe(64);
+    expect(adapter.backend.measurements.has('m-2')).toBe(false);
+  });
+
+  it('drops queued measurements of a deleted profile', async () => {
+    const repository = createMemoryRepository();
+    await repository.saveUser(user);
+    await repository.saveMeasurements([measurement('m-1', 64.2)]);
+    await repository.deleteUser(user.id);
+
+    const outbox = await repository.getOutbox();
+    expect(outbox.map((entry) => [entry.entityId, entry.operation])).toEqual([['user-1', 'delete']]);
+  });
+
+  it('keeps the outbox when the backend is unreachable', async () => {
+    const repository = createMemoryRepository();
+    const adapter = createMemorySyncAdapter();
+    await repository.saveUser(user);
+    adapter.failWith = new Error('Сервер недоступен');
+
+    await expect(syncOutbox(repository, adapter)).rejects.toThrow('Сервер недоступен');
+    expect(await repository.getOutbox()).toHaveLength(1);
+    expect(adapter.backend.users.size).toBe(0);
+
+    // The failure only affects one attempt
+    expect(await syncOutbox(repository, adapter)).toEqual({ pushed: 1, pending: 0 });
+    expect(adapter.backend.users.get(user.id)).toEqual(user);
+  });
+
+  it('keeps a change made while a push was in flight', async () => {
+    const repository = createMemoryRepository();
+    const adapter = createMemorySyncAdapter();
+    await repository.saveUser(user);
+    const push = adapter.push;
+    adapter.push = async (changes) => {
+      await repository.saveUser({ ...user, name: 'Анна К.' });
+      return push(changes);
+    };
+
+    expect(await syncOutbox(repository, adapter)).toEqual({ pushed: 1, pending: 0 });
+    const [entry] = await repository.getOutbox();
+    expect((entry.payload as User).name).toBe('Анна К.');
+  });
+});
+
+describe('pullFromServer', () => {
+  const server = {
+    getUsers: async () => [{ ...user, name: 'Анна К.' }],
+    getMeasurements: async (userId: string) => (userId === user.id ? [measurement('m-1', 64)] : []),
+  };
+
+  it('merges the server data into the local repository without queueing it', async () => {
+    const repository = createMemoryRepository();
+    await repository.saveUser(user);
+    await repository.saveMeasurements([measurement('m-1', 64.2), measurement('m-2', 63.8)]);
+    await repository.removeFromOutbox((await repository.getOutbox()).map((entry) => entry.id));
+
+    expect(await pullFromServer(server, repository)).toEqual({ users: 1, measurements: 1 });
+    expect(await repository.getUsers()).toEqual([{ ...user, name: 'Анна К.' }]);
+    expect((await repository.getMeasurements(user.id)).map((m) => [m.id, m.weight])).toEqual([
+      ['m-1', 64],
+      ['m-2', 63.8],
+    ]);
+    expect(await repository.getOutbox()).toEqual([]);
+  });
+
+  it('keeps local changes that are still queued', async () => {
+    const repository = createMemoryRepository();
+    await repository.saveMeasurements([measurement('m-2', 63.8)]);
+
+    await pullFromServer(server, repository);
+    expect((await repository.getOutbox()).map((entry) => entry.entityId)).toEqual(['m-2']);
+  });
+});
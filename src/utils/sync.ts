@@ -0,0 +1,139 @@
+import { Measurement, User } from '../types';
+import { OutboxEntry, Repository } from './repository';
+import { ApiClient, ApiError } from './apiClient';
+
+// Pushes pending local changes to a backend. Returns the ids of the outbox
+// entries the backend accepted; the rest stay queued for the next attempt.
+export interface SyncAdapter {
+  push(changes: OutboxEntry[]): Promise<string[]>;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pending: number;
+}
+
+export interface PullResult {
+  users: number;
+  measurements: number;
+}
+
+export const syncOutbox = async (
+  repository: Repository,
+  adapter: SyncAdapter
+): Promise<SyncResult> => {
+  const pending = await repository.getOutbox();
+  if (pending.length === 0) {
+    return { pushed: 0, pending: 0 };
+  }
+
+  const acceptedIds = await adapter.push(pending);
+  await repository.removeFromOutbox(acceptedIds);
+
+  return { pushed: acceptedIds.length, pending: pending.length - acceptedIds.length };
+};
+
+// Copies everything stored on the server into the local repository. Server
+// records replace local ones with the same id, records only stored locally
+// are kept. The copies are not queued to be pushed back.
+export const pullFromServer = async (
+  client: Pick<ApiClient, 'getUsers' | 'getMeasurements'>,
+  repository: Repository
+): Promise<PullResult> => {
+  const users = await client.getUsers();
+  const measurements: Measurement[] = [];
+  for (const user of users) {
+    measurements.push(...(await client.getMeasurements(user.id)));
+  }
+
+  const queuedBefore = new Set((await repository.getOutbox()).map((entry) => entry.id));
+  for (const user of users) {
+    await repository.saveUser(user);
+  }
+  await repository.saveMeasurements(measurements);
+  const pulled = (await repository.getOutbox()).filter((entry) => !queuedBefore.has(entry.id));
+  await repository.removeFromOutbox(pulled.map((entry) => entry.id));
+
+  return { users: users.length, measurements: measurements.length };
+};
+
+export interface MemoryBackend {
+  users: Map<string, User>;
+  measurements: Map<string, Measurement>;
+}
+
+// Adapter backed by an in-memory "server", for development and tests.
+// `failWith` makes the next push reject to simulate an unreachable backend.
+export const createMemorySyncAdapter = (
+  backend: MemoryBackend = { users: new Map(), measurements: new Map() }
+): SyncAdapter & { backend: MemoryBackend; failWith: Error | null } => {
+  const adapter = {
+    backend,
+    failWith: null as Error | null,
+    push: async (changes: OutboxEntry[]) => {
+      if (adapter.failWith) {
+        const error = adapter.failWith;
+        adapter.failWith = null;
+        throw error;
+      }
+
+      changes.forEach((change) => {
+        if (change.entity === 'user') {
+          if (change.operation === 'upsert') {
+            backend.users.set(change.entityId, change.payload as User);
+          } else {
+            backend.users.delete(change.entityId);
+            [...backend.measurements.values()]
+              .filter((m) => m.userId === change.entityId)
+              .forEach((m) => backend.measurements.delete(m.id));
+          }
+        } else if (change.operation === 'upsert') {
+          backend.measurements.set(change.entityId, change.payload as Measurement);
+        } else {
+          backend.measurements.delete(change.entityId);
+        }
+      });
+
+      return changes.map((change) => change.id);
+    },
+  };
+  return adapter;
+};
+
+// Replays outbox entries against the HTTP API in order. Stops at the first
+// failure so later changes are never applied before earlier ones.
+export const createRestSyncAdapter = (client: ApiClient): SyncAdapter => ({
+  push: async (changes) => {
+    const accepted: string[] = [];
+
+    for (const change of changes) {
+      try {
+        if (change.entity === 'user') {
+          if (change.operation === 'upsert') {
+            await client.saveUser(change.payload as User);
+          } else {
+            await client.deleteUser(change.entityId);
+          }
+        } else {
+          const measurement = change.payload as Measurement;
+          if (change.operation === 'upsert') {
+            await client.saveMeasurement(measurement);
+          } else {
+            await client.deleteMeasurement(measurement.userId, change.entityId);
+          }
+        }
+      } catch (error) {
+        // Deleting something the server never had is already done
+        const alreadyDeleted =
+          change.operation === 'delete' && error instanceof ApiError && error.status === 404;
+        if (!alreadyDeleted) {
+          if (accepted.length === 0) throw error;
+          break;
+        }
+      }
+      accepted.push(change.id);
+    }
+
+    return accepted;
+  },
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { SeriesPoint, describeForecast, fitRegression, forecastAt } from './trends';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const start = new Date('2024-03-01T08:30:00.000Z').getTime();
+
+const series = (...values: number[]): SeriesPoint[] =>
+  values.map((value, week) => ({ measurementId: `m-${week + 1}`, time: start + week * WEEK_MS, value }));
+
+const inWeeks = (weeks: number) => new Date(start + weeks * WEEK_MS);
+
+describe('fitRegression', () => {
+  it('needs two points at different times', () => {
+    expect(fitRegression(series(64))).toBeNull();
+    expect(fitRegression([...series(64), { ...series(63)[0], measurementId: 'm-2' }])).toBeNull();
+  });
+
+  it('fits a line through two points without an error estimate', () => {
+    const regression = fitRegression(series(64, 63.5), 'linear')!;
+
+    expect(regression.slope).toBeCloseTo(-0.5);
+    expect(regression.residualStandardError).toBeNull();
+  });
+});
+
+describe('forecastAt', () => {
+  it('gives no forecast from two points', () => {
+    expect(forecastAt(fitRegression(series(64, 63.5))!, inWeeks(5))).toBeNull();
+  });
+
+  it('uses the widest interval for three points', () => {
+    const regression = fitRegression(series(64, 63.8, 63), 'linear')!;
+    const forecast = forecastAt(regression, inWeeks(6))!;
+
+    expect(forecast.value).toBeCloseTo(64.1 - 0.5 * 6);
+    // One degree of freedom: t = 12.71
+    const standardError = regression.residualStandardError! * Math.sqrt(1 + 1 / 3 + (6 - 1) ** 2 / 2);
+    expect(forecast.upper - forecast.value).toBeCloseTo(12.71 * standardError);
+    expect(forecast.value - forecast.lower).toBeCloseTo(12.71 * standardError);
+  });
+
+  it('collapses the interval when the points lie on a line', () => {
+    const forecast = forecastAt(fitRegression(series(64, 63.5, 63))!, inWeeks(6))!;
+
+    expect(forecast.value).toBeCloseTo(61);
+    expect(forecast.lower).toBeCloseTo(61);
+    expect(forecast.upper).toBeCloseTo(61);
+  });
+});
+
+describe('describeForecast', () => {
+  it('shows a flat trend without a sign', () => {
+    const regression = fitRegression(series(64, 64.02, 63.98))!;
+    const forecast = forecastAt(regression, inWeeks(6))!;
+
+    expect(describeForecast('weight', regression, forecast)).toContain('(0 кг в неделю)');
+  });
+});
@@ -0,0 +1,281 @@
+import { Measurement } from '../types';
+import { sortByDate } from './dateRange';
+import { ChartMetric, getMetricOption, getMetricValue } from './metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Only recent measurements describe the current trend
+export const TREND_WINDOW_WEEKS = 8;
+export const ROLLING_WINDOW_DAYS = 14;
+export const FORECAST_WEEKS = 4;
+
+export interface SeriesPoint {
+  measurementId: string;
+  time: number;
+  value: number;
+}
+
+export type RegressionMethod = 'linear' | 'robust';
+
+export interface Regression {
+  method: RegressionMethod;
+  slope: number; // per week
+  intercept: number; // value at `origin`
+  origin: number; // time of the first point
+  pointCount: number;
+  meanWeeks: number;
+  sumSquaresWeeks: number;
+  residualStandardError: number | null; // null with fewer than three points
+}
+
+export interface Forecast {
+  date: Date;
+  value: number;
+  lower: number; // 95% prediction interval
+  upper: number;
+}
+
+export interface Outlier {
+  measurementId: string;
+  reason: string;
+}
+
+export interface TrendAnalysis {
+  series: SeriesPoint[];
+  rollingAverage: number[]; // aligned with `series`
+  outliers: Outlier[];
+  regression: Regression | null;
+}
+
+// Largest plausible change within JUMP_WINDOW_DAYS. Bigger jumps between two
+// close measurements are usually hydration or meal artefacts.
+const JUMP_WINDOW_DAYS = 2;
+const JUMP_LIMITS: Partial<Record<ChartMetric, number>> = {
+  weight: 2,
+  bodyFatMass: 1.5,
+  skeletalMuscleMass: 1,
+  leanBodyMass: 2,
+  waterPercentage: 3,
+};
+
+// Hampel filter settings; the scale makes the MAD comparable to a standard deviation
+const HAMPEL_HALF_WINDOW = 3;
+const OUTLIER_THRESHOLD = 3;
+const MAD_SCALE = 1.4826;
+
+// Two-sided 95% Student t quantiles for 1 to 30 degrees of freedom
+const T_QUANTILES_95 = [
+  12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23, 2.2, 2.18, 2.16, 2.14, 2.13, 2.12, 2.11,
+  2.1, 2.09, 2.09, 2.08, 2.07, 2.07, 2.06, 2.06, 2.06, 2.05, 2.05, 2.05, 2.04,
+];
+
+const getTQuantile = (degreesOfFreedom: number) =>
+  T_QUANTILES_95[degreesOfFreedom - 1] ?? 1.96;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const getMetricSeries = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  height: number
+): SeriesPoint[] =>
+  sortByDate(measurements)
+    .map((m) => ({ measurementId: m.id, time: m.date.getTime(), value: getMetricValue(m, metric, height) }))
+    .filter((point): point is SeriesPoint => point.value !== null);
+
+// Mean of the points within the preceding window, including the point itself
+export const calculateRollingAverage = (
+  series: SeriesPoint[],
+  windowDays: number = ROLLING_WINDOW_DAYS
+): number[] =>
+  series.map((point) => {
+    const window = series.filter(
+      (other) => other.time <= point.time && point.time - other.time < windowDays * DAY_MS
+    );
+    return window.reduce((sum, other) => sum + other.value, 0) / window.length;
+  });
+
+// Least squares, or Theil-Sen (median of pairwise slopes) which a single
+// bad reading cannot pull around
+export const fitRegression = (
+  series: SeriesPoint[],
+  method: RegressionMethod = 'robust'
+): Regression | null => {
+  if (series.length < 2) return null;
+
+  const origin = series[0].time;
+  const weeks = series.map((point) => (point.time - origin) / WEEK_MS);
+  const values = series.map((point) => point.value);
+  const meanWeeks = weeks.reduce((sum, x) => sum + x, 0) / series.length;
+  const meanValue = values.reduce((sum, y) => sum + y, 0) / series.length;
+  const sumSquaresWeeks = weeks.reduce((sum, x) => sum + (x - meanWeeks) ** 2, 0);
+  if (sumSquaresWeeks === 0) return null;
+
+  let slope: number;
+  let intercept: number;
+  if (method === 'linear') {
+    const covariance = weeks.reduce((sum, x, i) => sum + (x - meanWeeks) * (values[i] - meanValue), 0);
+    slope = covariance / sumSquaresWeeks;
+    intercept = meanValue - slope * meanWeeks;
+  } else {
+    const slopes: number[] = [];
+    for (let i = 0; i < series.length; i++) {
+      for (let j = i + 1; j < series.length; j++) {
+        if (weeks[j] !== weeks[i]) slopes.push((values[j] - values[i]) / (weeks[j] - weeks[i]));
+      }
+    }
+    slope = median(slopes);
+    intercept = median(values.map((y, i) => y - slope * weeks[i]));
+  }
+
+  const residuals = values.map((y, i) => y - (intercept + slope * weeks[i]));
+  const residualStandardError =
+    series.length > 2
+      ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (series.length - 2))
+      : null;
+
+  return {
+    method,
+    slope,
+    intercept,
+    origin,
+    pointCount: series.length,
+    meanWeeks,
+    sumSquaresWeeks,
+    residualStandardError,
+  };
+};
+
+export const predict = (regression: Regression, time: number): number =>
+  regression.intercept + (regression.slope * (time - regression.origin)) / WEEK_MS;
+
+// Null when there are too few points to estimate the uncertainty
+export const forecastAt = (regression: Regression, date: Date): Forecast | null => {
+  if (regression.residualStandardError === null) return null;
+
+  const weeks = (date.getTime() - regression.origin) / WEEK_MS;
+  const value = predict(regression, date.getTime());
+  const standardError =
+    regression.residualStandardError *
+    Math.sqrt(
+      1 +
+        1 / regression.pointCount +
+        (weeks - regression.meanWeeks) ** 2 / regression.sumSquaresWeeks
+    );
+  const margin = getTQuantile(regression.pointCount - 2) * standardError;
+
+  return { date, value, lower: value - margin, upper: value + margin };
+};
+
+// The sign follows the rounded value, so a flat trend reads "0" rather than "−0"
+const formatChange = (value: number, unit: string) => {
+  const rounded = parseFloat(value.toFixed(1));
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : ''}${Math.abs(rounded)}${unit ? ` ${unit}` : ''}`;
+};
+
+export const detectOutliers = (series: SeriesPoint[], metric: ChartMetric): Outlier[] => {
+  const outliers = new Map<string, string>();
+  const unit = getMetricOption(metric)?.unit ?? '';
+
+  // Sudden jumps are measured against the last plausible point
+  const jumpLimit = JUMP_LIMITS[metric];
+  if (jumpLimit !== undefined) {
+    let previous: SeriesPoint | undefined;
+    series.forEach((point) => {
+      const change = previous ? point.value - previous.value : 0;
+      if (previous && point.time - previous.time <= JUMP_WINDOW_DAYS * DAY_MS && Math.abs(change) > jumpLimit) {
+        outliers.set(
+          point.measurementId,
+          `Изменение ${formatChange(change, unit)} за ${JUMP_WINDOW_DAYS} дня или меньше — вероятно, колебания водного баланса`
+        );
+      } else {
+        previous = point;
+      }
+    });
+  }
+
+  // Points far from their neighbours (Hampel filter): more than
+  // OUTLIER_THRESHOLD scaled median absolute deviations from the local median
+  series.forEach((point, index) => {
+    const neighbours = series
+      .slice(Math.max(0, index - HAMPEL_HALF_WINDOW), index + HAMPEL_HALF_WINDOW + 1)
+      .map((other) => other.value);
+    if (neighbours.length < HAMPEL_HALF_WINDOW * 2 + 1) return;
+
+    const center = median(neighbours);
+    const deviation = MAD_SCALE * median(neighbours.map((value) => Math.abs(value - center)));
+    if (
+      deviation > 0 &&
+      Math.abs(point.value - center) > OUTLIER_THRESHOLD * deviation &&
+      !outliers.has(point.measurementId)
+    ) {
+      outliers.set(point.measurementId, 'Значение сильно отклоняется от соседних измерений');
+    }
+  });
+
+  return series
+    .filter((point) => outliers.has(point.measurementId))
+    .map((point) => ({ measurementId: point.measurementId, reason: outliers.get(point.measurementId)! }));
+};
+
+// The regression uses the recent window only and leaves outliers out
+export const analyzeTrend = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  height: number,
+  method: RegressionMethod = 'robust'
+): TrendAnalysis => {
+  const series = getMetricSeries(measurements, metric, height);
+  const outliers = detectOutliers(series, metric);
+  const outlierIds = new Set(outliers.map((outlier) => outlier.measurementId));
+
+  const last = series[series.length - 1];
+  const recent = last
+    ? series.filter(
+        (point) =>
+          !outlierIds.has(point.measurementId) && last.time - point.time <= TREND_WINDOW_WEEKS * WEEK_MS
+      )
+    : [];
+
+  return {
+    series,
+    rollingAverage: calculateRollingAverage(series),
+    outliers,
+    regression: fitRegression(recent, method),
+  };
+};
+
+// Change per week over the recent measurements, null without enough data
+export const calculateWeeklyTrend = (
+  measurements: Measurement[],
+  metric: ChartMetric,
+  height: number
+): number | null => analyzeTrend(measurements, metric, height).regression?.slope ?? null;
+
+export const getForecastDate = (series: SeriesPoint[], weeks: number = FORECAST_WEEKS): Date | null => {
+  const last = series[series.length - 1];
+  return last ? new Date(last.time + weeks * WEEK_MS) : null;
+};
+
+const formatValue = (value: number, unit: string) =>
+  `${parseFloat(value.toFixed(1))}${unit ? ` ${unit}` : ''}`;
+
+// "At this rate" summary of a forecast for the Reports page
+export const describeForecast = (metric: ChartMetric, regression: Regression, forecast: Forecast): string => {
+  const option = getMetricOption(metric);
+  const unit = option?.unit ?? '';
+  const date = forecast.date.toLocaleDateString('ru-RU', { year: 'numeric', month: 'long', day: 'numeric' });
+  const rate = `${formatChange(regression.slope, unit)} в неделю`;
+  const range = `от ${formatValue(forecast.lower, unit)} до ${formatValue(forecast.upper, unit)}`;
+  const outcome =
+    metric === 'weight'
+      ? `вы будете весить ${formatValue(forecast.value, unit)}`
+      : `показатель «${option?.label ?? metric}» составит ${formatValue(forecast.value, unit)}`;
+
+  return `При текущем темпе (${rate}) ${outcome} к ${date} (вероятный диапазон ${range}).`;
+};
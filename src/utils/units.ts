@@ -0,0 +1,3 @@
+// Conversion factors for values recorded in imperial units
+export const LB_TO_KG = 0.45359237;
+export const INCH_TO_CM = 2.54;
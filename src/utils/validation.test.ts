@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { validateMeasurement } from './validation';
+
+const valid = {
+  weight: 64.2,
+  bodyFatPercentage: 26.9,
+  skeletalMuscleMass: 25.4,
+  date: new Date('2024-03-01T08:30:00.000Z'),
+};
+
+describe('validateMeasurement', () => {
+  it('accepts missing optional values', () => {
+    expect(validateMeasurement(valid)).toEqual({});
+  });
+
+  it('rejects optional values that are not numbers', () => {
+    expect(validateMeasurement({ ...valid, metabolicAge: NaN, visceralFat: Infinity })).toEqual({
+      metabolicAge: 'Введите число',
+      visceralFat: 'Введите число',
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Goal, Measurement, User } from '../types';
+
+const OPTIONAL_NUMBERS = ['visceralFat', 'waterPercentage', 'basalMetabolicRate', 'metabolicAge'] as const;
+
+export const validateMeasurement = (data: Partial<Measurement>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  // Required fields
+  if (!data.weight || data.weight <= 0) {
+    errors.weight = 'Требуется указать вес больше 0';
+  }
+
+  if (!data.bodyFatPercentage || data.bodyFatPercentage < 0) {
+    errors.bodyFatPercentage = 'Требуется указать процент жира (неотрицательное число)';
+  }
+
+  if (!data.skeletalMuscleMass || data.skeletalMuscleMass <= 0) {
+    errors.skeletalMuscleMass = 'Требуется указать мышечную массу больше 0';
+  }
+
+  // Range validations
+  if (data.bodyFatPercentage && (data.bodyFatPercentage < 0 || data.bodyFatPercentage > 100)) {
+    errors.bodyFatPercentage = 'Процент жира должен быть от 0 до 100';
+  }
+
+  if (data.waterPercentage && (data.waterPercentage < 0 || data.waterPercentage > 100)) {
+    errors.waterPercentage = 'Процент воды должен быть от 0 до 100';
+  }
+
+  // Optional values are either missing or a number
+  OPTIONAL_NUMBERS.forEach((field) => {
+    const value = data[field];
+    if (value !== undefined && !Number.isFinite(value)) {
+      errors[field] = 'Введите число';
+    }
+  });
+
+  // Optional girths and segmental values must be positive when given
+  if (data.girths && Object.values(data.girths).some((value) => value !== undefined && !(value > 0))) {
+    errors.girths = 'Обхваты должны быть больше 0';
+  }
+
+  if (
+    data.segmental &&
+    Object.values(data.segmental).some((segment) =>
+      Object.values(segment ?? {}).some((value) => value !== undefined && !(value >= 0))
+    )
+  ) {
+    errors.segmental = 'Сегментарные значения не могут быть отрицательными';
+  }
+
+  if (data.date) {
+    const time = data.date.getTime();
+    if (Number.isNaN(time)) {
+      errors.date = 'Некорректная дата измерения';
+    } else if (time > Date.now()) {
+      errors.date = 'Дата измерения не может быть в будущем';
+    }
+  }
+
+  return errors;
+};
+
+export const validateUser = (data: User): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  // Name validation
+  if (!data.name.trim()) {
+    errors.name = 'Требуется указать имя';
+  }
+
+  // Age validation
+  if (!data.age || data.age <= 0) {
+    errors.age = 'Возраст должен быть больше 0';
+  }
+
+  // Height validation
+  if (!data.height || data.height <= 0) {
+    errors.height = 'Рост должен быть больше 0';
+  }
+
+  // Ranges depend on sex, so 'other' needs an explicit reference population
+  if (data.gender === 'other' && !data.referencePopulation) {
+    errors.referencePopulation = 'Выберите, по каким нормам оценивать показатели';
+  }
+
+  // Email validation (optional field)
+  if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+    errors.email = 'Неверный формат email';
+  }
+
+  return errors;
+};
+
+export const validateGoal = (data: Partial<Goal>): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (!data.metric) {
+    errors.metric = 'Выберите показатель';
+  }
+
+  if (!data.targetValue || data.targetValue <= 0) {
+    errors.targetValue = 'Целевое значение должно быть больше 0';
+  } else if (data.startValue !== undefined && data.targetValue === data.startValue) {
+    errors.targetValue = 'Целевое значение совпадает с текущим';
+  }
+
+  if (!data.deadline || Number.isNaN(data.deadline.getTime())) {
+    errors.deadline = 'Укажите срок';
+  } else if (data.deadline.getTime() <= Date.now()) {
+    errors.deadline = 'Срок должен быть в будущем';
+  }
+
+  return errors;
+};
+
+export const isProfileComplete = (user: User): boolean =>
+  Object.keys(validateUser(user)).length === 0;
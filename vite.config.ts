@@ -7,4 +7,24 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  build: {
+    rollupOptions: {
+      output: {
+        // The OCR engine finds its language model by file name
+        assetFileNames: (asset) =>
+          asset.name?.endsWith('.traineddata.gz')
+            ? 'tessdata/[name][extname]'
+            : 'assets/[name]-[hash][extname]',
+      },
+    },
+  },
+  server: {
+    // Forwards API calls to `npm run mock-server` during development
+    proxy: {
+      '/api': {
+        target: 'http://localhost:3001',
+        rewrite: (path) => path.replace(/^\/api/, ''),
+      },
+    },
+  },
 });